@@ -0,0 +1,100 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatDate, formatMillions } from "@/lib/format";
+import {
+  ALERT_LABELS,
+  alertEpisodes,
+  type AlertEpisode,
+  type LiquidityAlert,
+  type PoolConfig,
+  type SimulationResult,
+} from "@/lib/simulation";
+
+const MAX_LISTED_EPISODES = 20;
+
+/**
+ * Lists a scenario's liquidity alerts, grouping consecutive days with the
+ * same alert into one entry.
+ */
+export function AlertsPanel({
+  result,
+  pools,
+}: {
+  result: SimulationResult;
+  pools: PoolConfig[];
+}) {
+  const episodes = useMemo(() => alertEpisodes(result.records), [result]);
+
+  if (episodes.length === 0) {
+    return (
+      <section className="rounded-2xl border border-emerald-200 bg-emerald-50 px-5 py-3 text-sm text-emerald-800">
+        No liquidity alerts: the cash pool stays funded, borrowing stays within
+        its limit and every pool repays on time.
+      </section>
+    );
+  }
+
+  return (
+    <section className="rounded-2xl border border-amber-200 bg-amber-50 p-5">
+      <h2 className="text-sm font-semibold text-amber-900">
+        {episodes.length} liquidity alert{episodes.length === 1 ? "" : "s"}
+      </h2>
+      <ul className="mt-2 space-y-1 text-sm text-amber-900">
+        {episodes.slice(0, MAX_LISTED_EPISODES).map((episode) => (
+          <li
+            key={`${episode.kind}-${episode.pool ?? ""}-${episode.startDay}`}
+            className="flex flex-wrap justify-between gap-x-4"
+          >
+            <span className="font-semibold">
+              {describeEpisode(episode, pools)}
+            </span>
+            <span className="text-xs text-amber-800">
+              {formatDate(episode.startDate)}
+              {episode.endDay > episode.startDay &&
+                ` – ${formatDate(episode.endDate)} (${
+                  episode.endDay - episode.startDay + 1
+                } days)`}{" "}
+              • peak {formatMillions(episode.peak, 1)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {episodes.length > MAX_LISTED_EPISODES && (
+        <p className="mt-1 text-xs text-amber-800">
+          …and {episodes.length - MAX_LISTED_EPISODES} more.
+        </p>
+      )}
+    </section>
+  );
+}
+
+/** One-line description of an alert, e.g. for a row tooltip. */
+export function describeAlert(alert: LiquidityAlert, pools: PoolConfig[]) {
+  const amount = formatMillions(alert.amount, 1);
+  switch (alert.kind) {
+    case "cashPoolBreach":
+      return `Cash pool overdrawn by ${amount}`;
+    case "borrowLimitBreach":
+      return `Borrowing ${amount} over its limit`;
+    case "unfundedDeficit":
+      return `${poolName(alert.pool, pools)} left ${amount} unfunded`;
+    case "slowRepayment":
+      return `${poolName(alert.pool, pools)} in debt for ${alert.days} days`;
+    case "interestPastDue":
+      return `${poolName(alert.pool, pools)} interest ${amount} due for ${
+        alert.days
+      } days`;
+  }
+}
+
+function describeEpisode(episode: AlertEpisode, pools: PoolConfig[]) {
+  const label = ALERT_LABELS[episode.kind];
+  return episode.pool === undefined
+    ? label
+    : `${label}: ${poolName(episode.pool, pools)}`;
+}
+
+function poolName(key: string, pools: PoolConfig[]) {
+  return pools.find((pool) => pool.key === key)?.name ?? key;
+}
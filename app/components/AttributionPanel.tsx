@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { WaterfallChart } from "@/app/components/Charts";
+import { formatFullDollars, formatMillions } from "@/lib/format";
+import {
+  DRAG_COMPONENT_LABELS,
+  attributeDrag,
+  compareAttributions,
+  type PoolConfig,
+  type ScenarioConfig,
+  type ScenarioId,
+  type SimulationResult,
+} from "@/lib/simulation";
+
+/**
+ * Explains the difference in total drag between two scenarios, component
+ * by component and pool by pool.
+ */
+export function AttributionPanel({
+  scenarios,
+  results,
+  pools,
+}: {
+  scenarios: ScenarioConfig[];
+  results: Record<ScenarioId, SimulationResult>;
+  pools: PoolConfig[];
+}) {
+  const [fromId, setFromId] = useState<ScenarioId>(
+    () =>
+      (
+        scenarios.find((scenario) => scenario.params.funding === "prefunded") ??
+        scenarios[0]
+      ).id
+  );
+  const [toId, setToId] = useState<ScenarioId>(
+    () =>
+      (
+        scenarios.find((scenario) => scenario.params.funding === "internal") ??
+        scenarios[scenarios.length - 1]
+      ).id
+  );
+  const from =
+    scenarios.find((scenario) => scenario.id === fromId) ?? scenarios[0];
+  const to =
+    scenarios.find((scenario) => scenario.id === toId) ??
+    scenarios[scenarios.length - 1];
+
+  const comparison = useMemo(() => {
+    const fromResult = results[from.id];
+    const toResult = results[to.id];
+    if (!fromResult || !toResult) return null;
+    return compareAttributions(
+      attributeDrag(from.params, fromResult),
+      attributeDrag(to.params, toResult)
+    );
+  }, [from, to, results]);
+
+  if (!comparison) return null;
+  const difference = comparison.to - comparison.from;
+  const largest = [...comparison.steps].sort(
+    (a, b) => Math.abs(b.change) - Math.abs(a.change)
+  )[0];
+  const tone = (value: number) =>
+    value < 0 ? "text-emerald-700" : value > 0 ? "text-rose-600" : "";
+  const cell = (value: number) =>
+    Math.abs(value) < 0.0000005 ? "—" : formatFullDollars(value);
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Drag Attribution
+          </h2>
+          <p className="text-sm text-slate-500">
+            Where the difference in total drag between two scenarios comes from.
+            Idle cash is the expected return forgone before the interest it
+            earned, which is credited back on its own line.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+          <ScenarioSelect
+            label="From"
+            value={from.id}
+            scenarios={scenarios}
+            onChange={setFromId}
+          />
+          <ScenarioSelect
+            label="to"
+            value={to.id}
+            scenarios={scenarios}
+            onChange={setToId}
+          />
+        </div>
+      </div>
+      {from.id !== to.id && largest && (
+        <p className="mt-3 text-sm text-slate-700">
+          {to.name} has{" "}
+          <span className={`font-semibold ${tone(difference)}`}>
+            {formatFullDollars(Math.abs(difference))}{" "}
+            {difference <= 0 ? "less" : "more"}
+          </span>{" "}
+          drag than {from.name}; the largest contributor is{" "}
+          {DRAG_COMPONENT_LABELS[largest.component].toLowerCase()} (
+          {formatFullDollars(largest.change)}).
+        </p>
+      )}
+      <div className="mt-4">
+        <WaterfallChart
+          title={`${from.name} → ${to.name}`}
+          start={{ label: from.name, value: comparison.from }}
+          steps={comparison.steps.map((step) => ({
+            key: step.component,
+            label: DRAG_COMPONENT_LABELS[step.component],
+            value: step.change,
+          }))}
+          end={{ label: to.name, value: comparison.to }}
+          format={(value) => formatMillions(value, 2)}
+        />
+      </div>
+      <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-100">
+        <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+            <tr>
+              <th className="px-3 py-2 text-left">Change in Drag</th>
+              {pools.map((pool) => (
+                <th
+                  key={`attribution-${pool.key}`}
+                  className="px-3 py-2 text-right"
+                  style={{ color: pool.color }}
+                >
+                  {pool.name}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-right">Cash Pool</th>
+              <th className="px-3 py-2 text-right">Facility</th>
+              <th className="px-3 py-2 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {comparison.steps.map((step) => (
+              <tr key={step.component} className="hover:bg-amber-50">
+                <td className="px-3 py-2 font-semibold text-slate-900">
+                  {DRAG_COMPONENT_LABELS[step.component]}
+                </td>
+                {pools.map((pool) => (
+                  <td
+                    key={`${step.component}-${pool.key}`}
+                    className={`px-3 py-2 text-right ${tone(
+                      step.pools[pool.key] ?? 0
+                    )}`}
+                  >
+                    {cell(step.pools[pool.key] ?? 0)}
+                  </td>
+                ))}
+                <td className={`px-3 py-2 text-right ${tone(step.cashPool)}`}>
+                  {cell(step.cashPool)}
+                </td>
+                <td className={`px-3 py-2 text-right ${tone(step.facility)}`}>
+                  {cell(step.facility)}
+                </td>
+                <td
+                  className={`px-3 py-2 text-right font-semibold ${tone(
+                    step.change
+                  )}`}
+                >
+                  {cell(step.change)}
+                </td>
+              </tr>
+            ))}
+            <tr className="bg-slate-50">
+              <td className="px-3 py-2 font-semibold text-slate-900">Total</td>
+              {pools.map((pool) => {
+                const total = comparison.steps.reduce(
+                  (sum, step) => sum + (step.pools[pool.key] ?? 0),
+                  0
+                );
+                return (
+                  <td
+                    key={`total-${pool.key}`}
+                    className={`px-3 py-2 text-right font-semibold ${tone(
+                      total
+                    )}`}
+                  >
+                    {cell(total)}
+                  </td>
+                );
+              })}
+              {[
+                comparison.steps.reduce((sum, step) => sum + step.cashPool, 0),
+                comparison.steps.reduce((sum, step) => sum + step.facility, 0),
+                difference,
+              ].map((total, index) => (
+                <td
+                  key={`total-${index}`}
+                  className={`px-3 py-2 text-right font-semibold ${tone(
+                    total
+                  )}`}
+                >
+                  {cell(total)}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function ScenarioSelect({
+  label,
+  value,
+  scenarios,
+  onChange,
+}: {
+  label: string;
+  value: ScenarioId;
+  scenarios: ScenarioConfig[];
+  onChange: (id: ScenarioId) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2">
+      {label}
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:border-slate-400"
+      >
+        {scenarios.map((scenario) => (
+          <option key={scenario.id} value={scenario.id}>
+            {scenario.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,514 @@
+"use client";
+
+import { useState, type MouseEvent, type ReactNode } from "react";
+import { withAlpha } from "@/lib/format";
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  values: number[];
+}
+
+/** Percentile band of one point of a fan chart. */
+export interface FanBand {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+interface HoverProps {
+  /** Index of the point under the crosshair, shared with other views. */
+  hoverIndex: number | null;
+  onHover: (index: number | null) => void;
+}
+
+interface Scales {
+  x: (index: number) => number;
+  y: (value: number) => number;
+}
+
+const WIDTH = 720;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 72 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+/**
+ * Cash stacked above zero and borrowing stacked below it, one layer per
+ * series, over shared period labels.
+ */
+export function StackedAreaChart({
+  title,
+  labels,
+  above,
+  below,
+  format,
+  hoverIndex,
+  onHover,
+}: {
+  title: string;
+  labels: string[];
+  above: ChartSeries[];
+  below: ChartSeries[];
+  format: (value: number) => string;
+} & HoverProps) {
+  const stack = (series: ChartSeries[], sign: number) => {
+    const base = labels.map(() => 0);
+    return series.map((entry) => {
+      const lower = [...base];
+      entry.values.forEach((value, index) => {
+        base[index] += sign * Math.max(0, value);
+      });
+      return { entry, lower, upper: [...base] };
+    });
+  };
+  const layers = [...stack(above, 1), ...stack(below, -1)];
+  const values = layers.flatMap((layer) => layer.upper);
+
+  return (
+    <ChartFrame
+      title={title}
+      labels={labels}
+      min={Math.min(0, ...values)}
+      max={Math.max(0, ...values)}
+      format={format}
+      hoverIndex={hoverIndex}
+      onHover={onHover}
+      legend={layers.map(({ entry }) => entry)}
+    >
+      {({ x, y }) =>
+        layers.map(({ entry, lower, upper }, layerIndex) => (
+          <path
+            key={entry.key}
+            d={areaPath(upper, lower, x, y)}
+            fill={withAlpha(
+              entry.color,
+              layerIndex < above.length ? 0.6 : 0.25
+            )}
+            stroke={entry.color}
+            strokeWidth={0.75}
+          />
+        ))
+      }
+    </ChartFrame>
+  );
+}
+
+/** One line per series over shared period labels. */
+export function LineChart({
+  title,
+  labels,
+  series,
+  format,
+  hoverIndex,
+  onHover,
+  emphasis,
+}: {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  format: (value: number) => string;
+  /** Key of a series to draw heavier than the rest. */
+  emphasis?: string;
+} & HoverProps) {
+  const values = series.flatMap((entry) => entry.values);
+
+  return (
+    <ChartFrame
+      title={title}
+      labels={labels}
+      min={Math.min(0, ...values)}
+      max={Math.max(0, ...values)}
+      format={format}
+      hoverIndex={hoverIndex}
+      onHover={onHover}
+      legend={series}
+    >
+      {({ x, y }) =>
+        series.map((entry) => (
+          <g key={entry.key}>
+            <path
+              d={linePath(entry.values, x, y)}
+              fill="none"
+              stroke={entry.color}
+              strokeWidth={entry.key === emphasis ? 2.5 : 1.5}
+            />
+            {hoverIndex !== null && entry.values[hoverIndex] !== undefined && (
+              <circle
+                cx={x(hoverIndex)}
+                cy={y(entry.values[hoverIndex])}
+                r={3}
+                fill={entry.color}
+              />
+            )}
+          </g>
+        ))
+      }
+    </ChartFrame>
+  );
+}
+
+/**
+ * Median line with P25–P75 and P5–P95 bands shaded around it. Charts that
+ * should be compared can share a scale by passing the same `max`.
+ */
+export function FanChart({
+  title,
+  labels,
+  bands,
+  color,
+  format,
+  max,
+}: {
+  title: string;
+  labels: string[];
+  bands: FanBand[];
+  color: string;
+  format: (value: number) => string;
+  max?: number;
+}) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const percentiles = (["p95", "p75", "p50", "p25", "p5"] as const).map(
+    (key) => ({
+      key,
+      label: key.toUpperCase(),
+      color,
+      values: bands.map((band) => band[key]),
+    })
+  );
+
+  return (
+    <ChartFrame
+      title={title}
+      labels={labels}
+      min={Math.min(0, ...bands.map((band) => band.p5))}
+      max={max ?? Math.max(0, ...bands.map((band) => band.p95))}
+      format={format}
+      hoverIndex={hoverIndex}
+      onHover={setHoverIndex}
+      legend={percentiles}
+    >
+      {({ x, y }) => (
+        <>
+          <path
+            d={areaPath(percentiles[0].values, percentiles[4].values, x, y)}
+            fill={withAlpha(color, 0.15)}
+          />
+          <path
+            d={areaPath(percentiles[1].values, percentiles[3].values, x, y)}
+            fill={withAlpha(color, 0.3)}
+          />
+          <path
+            d={linePath(percentiles[2].values, x, y)}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+          />
+        </>
+      )}
+    </ChartFrame>
+  );
+}
+
+/**
+ * Horizontal waterfall from a starting total through signed steps to an
+ * ending total, one row each. Steps that reduce the total are green.
+ */
+export function WaterfallChart({
+  title,
+  start,
+  steps,
+  end,
+  format,
+}: {
+  title: string;
+  start: { label: string; value: number };
+  steps: { key: string; label: string; value: number }[];
+  end: { label: string; value: number };
+  format: (value: number) => string;
+}) {
+  const rowHeight = 28;
+  const labelWidth = 200;
+  const valueWidth = 96;
+  const plotWidth = WIDTH - labelWidth - valueWidth - 16;
+  const height = (steps.length + 2) * rowHeight + 24;
+  const rows = [
+    { key: "start", label: start.label, from: 0, to: start.value, total: true },
+  ];
+  for (const step of steps) {
+    const from = rows[rows.length - 1].to;
+    rows.push({
+      key: step.key,
+      label: step.label,
+      from,
+      to: from + step.value,
+      total: false,
+    });
+  }
+  rows.push({
+    key: "end",
+    label: end.label,
+    from: 0,
+    to: end.value,
+    total: true,
+  });
+  const extremes = rows.flatMap((row) => [row.from, row.to]);
+  const ticks = niceTicks(Math.min(0, ...extremes), Math.max(0, ...extremes));
+  const low = ticks[0];
+  const span = ticks[ticks.length - 1] - low || 1;
+  const x = (value: number) => labelWidth + ((value - low) / span) * plotWidth;
+
+  return (
+    <figure className="space-y-2">
+      <figcaption className="text-sm font-semibold text-slate-900">
+        {title}
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full text-slate-500"
+        role="img"
+        aria-label={title}
+      >
+        {ticks.map((tick) => (
+          <g key={`tick-${tick}`}>
+            <line
+              x1={x(tick)}
+              x2={x(tick)}
+              y1={0}
+              y2={height - 20}
+              stroke={tick === 0 ? "#94a3b8" : "#e2e8f0"}
+            />
+            <text
+              x={x(tick)}
+              y={height - 6}
+              textAnchor="middle"
+              fontSize={11}
+              fill="currentColor"
+            >
+              {format(tick)}
+            </text>
+          </g>
+        ))}
+        {rows.map((row, index) => {
+          const top = index * rowHeight + 4;
+          const color = row.total
+            ? "#0f172a"
+            : row.to < row.from
+            ? "#10b981"
+            : "#f43f5e";
+          return (
+            <g key={row.key}>
+              <text
+                x={labelWidth - 8}
+                y={top + rowHeight / 2 + 2}
+                textAnchor="end"
+                fontSize={12}
+                fill={row.total ? "#0f172a" : "currentColor"}
+                fontWeight={row.total ? 600 : 400}
+              >
+                {row.label}
+              </text>
+              <rect
+                x={x(Math.min(row.from, row.to))}
+                y={top + 4}
+                width={Math.max(1, Math.abs(x(row.to) - x(row.from)))}
+                height={rowHeight - 10}
+                rx={2}
+                fill={row.total ? color : withAlpha(color, 0.75)}
+              />
+              <text
+                x={WIDTH - 8}
+                y={top + rowHeight / 2 + 2}
+                textAnchor="end"
+                fontSize={12}
+                fill={row.total ? "#0f172a" : color}
+              >
+                {row.total ? format(row.to) : format(row.to - row.from)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </figure>
+  );
+}
+
+/**
+ * Axes, gridlines, crosshair and a legend that reads out each series at
+ * the hovered point (or the last point when nothing is hovered).
+ */
+function ChartFrame({
+  title,
+  labels,
+  min,
+  max,
+  format,
+  hoverIndex,
+  onHover,
+  legend,
+  children,
+}: {
+  title: string;
+  labels: string[];
+  min: number;
+  max: number;
+  format: (value: number) => string;
+  legend: ChartSeries[];
+  children: (scales: Scales) => ReactNode;
+} & HoverProps) {
+  const ticks = niceTicks(min, max);
+  const low = Math.min(min, ticks[0]);
+  const high = Math.max(max, ticks[ticks.length - 1]);
+  const span = high - low || 1;
+  const x = (index: number) =>
+    PADDING.left +
+    (labels.length <= 1
+      ? PLOT_WIDTH / 2
+      : (index / (labels.length - 1)) * PLOT_WIDTH);
+  const y = (value: number) =>
+    PADDING.top + ((high - value) / span) * PLOT_HEIGHT;
+  const readIndex = hoverIndex ?? labels.length - 1;
+  const axisLabels = [
+    ...new Set([0, Math.floor((labels.length - 1) / 2), labels.length - 1]),
+  ].filter((index) => index >= 0);
+
+  const handleMove = (event: MouseEvent<SVGSVGElement>) => {
+    if (labels.length === 0) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const position = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const fraction = (position - PADDING.left) / PLOT_WIDTH;
+    const index = Math.round(fraction * (labels.length - 1));
+    onHover(Math.min(labels.length - 1, Math.max(0, index)));
+  };
+
+  return (
+    <figure className="space-y-2">
+      <figcaption className="flex flex-wrap items-baseline justify-between gap-2">
+        <span className="text-sm font-semibold text-slate-900">{title}</span>
+        <span className="text-xs text-slate-500">{labels[readIndex]}</span>
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full text-slate-500"
+        role="img"
+        aria-label={title}
+        onMouseMove={handleMove}
+        onMouseLeave={() => onHover(null)}
+      >
+        {ticks.map((tick) => (
+          <g key={`tick-${tick}`}>
+            <line
+              x1={PADDING.left}
+              x2={PADDING.left + PLOT_WIDTH}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke={tick === 0 ? "#94a3b8" : "#e2e8f0"}
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(tick) + 4}
+              textAnchor="end"
+              fontSize={11}
+              fill="currentColor"
+            >
+              {format(tick)}
+            </text>
+          </g>
+        ))}
+        {axisLabels.map((index) => (
+          <text
+            key={`label-${index}`}
+            x={x(index)}
+            y={HEIGHT - 8}
+            textAnchor={
+              index === 0
+                ? "start"
+                : index === labels.length - 1
+                ? "end"
+                : "middle"
+            }
+            fontSize={11}
+            fill="currentColor"
+          >
+            {labels[index]}
+          </text>
+        ))}
+        {children({ x, y })}
+        {hoverIndex !== null && (
+          <line
+            x1={x(hoverIndex)}
+            x2={x(hoverIndex)}
+            y1={PADDING.top}
+            y2={PADDING.top + PLOT_HEIGHT}
+            stroke="#0f172a"
+            strokeDasharray="3 3"
+          />
+        )}
+      </svg>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+        {legend.map((entry) => (
+          <li key={entry.key} className="flex items-center gap-1.5">
+            <span
+              className="inline-block h-2.5 w-2.5 rounded-sm"
+              style={{ backgroundColor: entry.color }}
+            />
+            {entry.label}
+            <span className="font-mono text-slate-900">
+              {entry.values[readIndex] === undefined
+                ? "—"
+                : format(entry.values[readIndex])}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </figure>
+  );
+}
+
+function linePath(
+  values: number[],
+  x: (index: number) => number,
+  y: (value: number) => number
+) {
+  return values
+    .map((value, index) => `${index === 0 ? "M" : "L"}${x(index)},${y(value)}`)
+    .join(" ");
+}
+
+/** Closed path running along `upper` and back along `lower`. */
+function areaPath(
+  upper: number[],
+  lower: number[],
+  x: (index: number) => number,
+  y: (value: number) => number
+) {
+  if (upper.length === 0) return "";
+  const back = lower
+    .map((value, index) => `L${x(index)},${y(value)}`)
+    .reverse()
+    .join(" ");
+  return `${linePath(upper, x, y)} ${back} Z`;
+}
+
+/** About four round tick values spanning `min` to `max`. */
+function niceTicks(min: number, max: number) {
+  if (max - min <= 0) return [min];
+  const rough = (max - min) / 4;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step =
+    ([1, 2, 2.5, 5].find((factor) => factor * magnitude >= rough) ?? 10) *
+    magnitude;
+  const ticks: number[] = [];
+  for (
+    let tick = Math.floor(min / step) * step;
+    tick <= max + step * 1e-9;
+    tick += step
+  ) {
+    ticks.push(Math.abs(tick) < step * 1e-9 ? 0 : tick);
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(ticks[ticks.length - 1] + step);
+  return ticks;
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { LineChart, StackedAreaChart } from "@/app/components/Charts";
+import { formatDate, formatMillions } from "@/lib/format";
+import {
+  holdsReserve,
+  type FundingMode,
+  type PeriodRecord,
+  type PoolConfig,
+  type RollupPeriod,
+  type ScenarioId,
+} from "@/lib/simulation";
+
+/** Line colours for scenarios, assigned in tab order. */
+export const SCENARIO_COLORS = [
+  "#0f172a",
+  "#2563eb",
+  "#f97316",
+  "#7c3aed",
+  "#10b981",
+  "#e11d48",
+  "#0ea5e9",
+  "#a16207",
+];
+
+const CASH_POOL_COLOR = "#111827";
+
+/**
+ * Charts of one scenario's records, period by period: cash and borrowing by
+ * pool, the cash pool balance, and cumulative drag against every other
+ * scenario. The crosshair follows `hoverIndex`, the same row index the
+ * results table highlights.
+ */
+export function ChartsDashboard({
+  scenarioId,
+  records,
+  comparison,
+  funding,
+  pools,
+  period,
+  hoverIndex,
+  onHover,
+}: {
+  scenarioId: ScenarioId;
+  records: PeriodRecord[];
+  /** Every scenario's records over the same periods, in tab order. */
+  comparison: { id: ScenarioId; name: string; records: PeriodRecord[] }[];
+  funding: FundingMode;
+  pools: PoolConfig[];
+  period: RollupPeriod;
+  hoverIndex: number | null;
+  onHover: (index: number | null) => void;
+}) {
+  const labels = records.map((record) =>
+    period === "daily" ? formatDate(record.date) : record.period
+  );
+  const poolValues = (pool: PoolConfig, value: "cash" | "borrow") =>
+    records.map(
+      (record) =>
+        record.pools.find((state) => state.key === pool.key)?.[value] ?? 0
+    );
+  const formatAxis = (value: number) => formatMillions(value, 1);
+
+  return (
+    <section className="space-y-6 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <StackedAreaChart
+        title="Cash and Borrowing by Pool"
+        labels={labels}
+        above={pools.map((pool) => ({
+          key: `${pool.key}-cash`,
+          label: `${pool.name} cash`,
+          color: pool.color,
+          values: poolValues(pool, "cash"),
+        }))}
+        below={pools.map((pool) => ({
+          key: `${pool.key}-borrow`,
+          label: `${pool.name} borrowed`,
+          color: pool.color,
+          values: poolValues(pool, "borrow"),
+        }))}
+        format={formatAxis}
+        hoverIndex={hoverIndex}
+        onHover={onHover}
+      />
+      {holdsReserve(funding) ? (
+        <LineChart
+          title="Cash Pool Balance"
+          labels={labels}
+          series={[
+            {
+              key: "cash-pool",
+              label: "Cash pool",
+              color: CASH_POOL_COLOR,
+              values: records.map((record) => record.cashPool.cash),
+            },
+          ]}
+          format={formatAxis}
+          hoverIndex={hoverIndex}
+          onHover={onHover}
+        />
+      ) : (
+        <p className="text-sm text-slate-500">
+          This scenario holds no cash pool, so there is no balance to chart.
+        </p>
+      )}
+      <LineChart
+        title="Cumulative Drag by Scenario"
+        labels={labels}
+        series={comparison.map((entry, index) => ({
+          key: entry.id,
+          label: entry.name,
+          color: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+          values: cumulativeDrag(entry.records),
+        }))}
+        emphasis={scenarioId}
+        format={(value) => formatMillions(value, 2)}
+        hoverIndex={hoverIndex}
+        onHover={onHover}
+      />
+    </section>
+  );
+}
+
+function cumulativeDrag(records: PeriodRecord[]) {
+  let running = 0;
+  return records.map((record) => {
+    running += record.totals.drag;
+    return running;
+  });
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { downloadFile, toFileSlug } from "@/lib/download";
+import { journalTable, toCsv } from "@/lib/export";
+import { formatDate, formatFullDollars } from "@/lib/format";
+import {
+  CASH_POOL_KEY,
+  JOURNAL_ENTRY_KINDS,
+  JOURNAL_ENTRY_LABELS,
+  journalTotals,
+  reconcileJournal,
+  type JournalEntryKind,
+  type PoolConfig,
+  type PoolKey,
+  type ScenarioConfig,
+  type SimulationResult,
+} from "@/lib/simulation";
+
+const PAGE_SIZE = 100;
+
+/**
+ * The scenario's intercompany loan journal, filterable by pool and entry
+ * type, with its tie-out to the run's summary.
+ */
+export function JournalPanel({
+  scenario,
+  result,
+  pools,
+  runLabel,
+}: {
+  scenario: ScenarioConfig;
+  result: SimulationResult;
+  pools: PoolConfig[];
+  /** Identifies the run in exported file names. */
+  runLabel: string;
+}) {
+  const [poolFilter, setPoolFilter] = useState<PoolKey | "all">("all");
+  const [kindFilter, setKindFilter] = useState<JournalEntryKind | "all">("all");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const checks = useMemo(() => reconcileJournal(result), [result]);
+  const entries = useMemo(
+    () =>
+      result.journal.filter(
+        (entry) =>
+          (poolFilter === "all" || entry.pool === poolFilter) &&
+          (kindFilter === "all" || entry.kind === kindFilter)
+      ),
+    [result, poolFilter, kindFilter]
+  );
+  const totals = useMemo(() => journalTotals(entries), [entries]);
+  const unbalanced = checks.filter((check) => !check.balanced);
+  const poolName = (key: PoolKey) =>
+    key === CASH_POOL_KEY
+      ? "Cash Pool"
+      : pools.find((pool) => pool.key === key)?.name ?? key;
+
+  const handleExport = () => {
+    downloadFile(
+      `${toFileSlug(scenario.name)}-journal-${runLabel}.csv`,
+      toCsv(journalTable(scenario, entries, pools)),
+      "text/csv"
+    );
+  };
+
+  if (result.journal.length === 0) {
+    return (
+      <section className="rounded-2xl border border-slate-200 bg-white px-5 py-3 text-sm text-slate-500">
+        No intercompany loans: this scenario never draws on the cash pool.
+      </section>
+    );
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Intercompany Loan Journal
+          </h2>
+          <p className="text-sm text-slate-500">
+            Every draw on the cash pool, repayment, interest accrual and
+            payment, and idle interest credit, with the balances after each.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+          <select
+            value={poolFilter}
+            onChange={(event) => {
+              setPoolFilter(event.target.value);
+              setLimit(PAGE_SIZE);
+            }}
+            aria-label="Filter by pool"
+            className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:border-slate-400"
+          >
+            <option value="all">All pools</option>
+            {pools.map((pool) => (
+              <option key={pool.key} value={pool.key}>
+                {pool.name}
+              </option>
+            ))}
+            <option value={CASH_POOL_KEY}>Cash Pool</option>
+          </select>
+          <select
+            value={kindFilter}
+            onChange={(event) => {
+              setKindFilter(event.target.value as JournalEntryKind | "all");
+              setLimit(PAGE_SIZE);
+            }}
+            aria-label="Filter by entry type"
+            className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:border-slate-400"
+          >
+            <option value="all">All entries</option>
+            {JOURNAL_ENTRY_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {JOURNAL_ENTRY_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {unbalanced.length === 0 ? (
+        <p className="mt-3 text-sm text-emerald-700">
+          The journal ties to the summary: {checks.length} checks balance to
+          within a dollar.
+        </p>
+      ) : (
+        <div className="mt-3 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          <p className="font-semibold">
+            The journal does not tie to the summary.
+          </p>
+          <ul className="mt-1 space-y-0.5">
+            {unbalanced.map((check) => (
+              <li key={check.label}>
+                {check.label}: journal {formatFullDollars(check.journal)},
+                summary {formatFullDollars(check.expected)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-600">
+        {JOURNAL_ENTRY_KINDS.filter((kind) => totals[kind] !== 0).map(
+          (kind) => (
+            <span key={kind}>
+              {JOURNAL_ENTRY_LABELS[kind]}:{" "}
+              <span className="font-semibold text-slate-900">
+                {formatFullDollars(totals[kind])}
+              </span>
+            </span>
+          )
+        )}
+      </div>
+
+      <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-100">
+        <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+            <tr>
+              <th className="px-3 py-2 text-right">#</th>
+              <th className="px-3 py-2 text-left">Date</th>
+              <th className="px-3 py-2 text-left">Entry</th>
+              <th className="px-3 py-2 text-left">Pool</th>
+              <th className="px-3 py-2 text-right">Amount</th>
+              <th className="px-3 py-2 text-right">Principal</th>
+              <th className="px-3 py-2 text-right">Interest Owed</th>
+              <th className="px-3 py-2 text-right">Cash Pool</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {entries.slice(0, limit).map((entry) => (
+              <tr key={entry.sequence} className="hover:bg-amber-50">
+                <td className="px-3 py-2 text-right text-slate-400">
+                  {entry.sequence}
+                </td>
+                <td className="px-3 py-2 text-slate-700">
+                  {formatDate(entry.date)}
+                </td>
+                <td className="px-3 py-2 font-semibold text-slate-900">
+                  {JOURNAL_ENTRY_LABELS[entry.kind]}
+                </td>
+                <td className="px-3 py-2 text-slate-700">
+                  {poolName(entry.pool)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatFullDollars(entry.amount)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {entry.pool === CASH_POOL_KEY
+                    ? "—"
+                    : formatFullDollars(entry.principal)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {entry.pool === CASH_POOL_KEY
+                    ? "—"
+                    : formatFullDollars(entry.interestOwed)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatFullDollars(entry.cashPool)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-slate-500">
+        <span>
+          Showing {Math.min(limit, entries.length)} of {entries.length} entries
+        </span>
+        {entries.length > limit && (
+          <button
+            type="button"
+            onClick={() => setLimit(limit + PAGE_SIZE)}
+            className="font-semibold text-slate-700 hover:text-slate-900"
+          >
+            Show {Math.min(PAGE_SIZE, entries.length - limit)} more
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
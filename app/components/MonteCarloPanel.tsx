@@ -0,0 +1,424 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { FanChart } from "@/app/components/Charts";
+import { SCENARIO_COLORS } from "@/app/components/ChartsDashboard";
+import type {
+  MonteCarloRequest,
+  MonteCarloResponse,
+} from "@/app/workers/monteCarlo.worker";
+import { formatFullDollars, formatMillions, formatPercent } from "@/lib/format";
+import {
+  MAX_MONTE_CARLO_PATHS,
+  MIN_MONTE_CARLO_PATHS,
+  type MonteCarloResult,
+  type PathSettings,
+  type PoolConfig,
+  type PoolKey,
+  type ScenarioConfig,
+  type ScenarioId,
+} from "@/lib/simulation";
+
+type RunStatus =
+  | { state: "idle" }
+  | { state: "running"; completed: number; total: number }
+  | { state: "error"; message: string };
+
+interface RunInputs {
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  seed: number;
+}
+
+const DEFAULT_PATHS = 5_000;
+
+export function MonteCarloPanel({
+  className,
+  scenarios,
+  pools,
+  pathSettings,
+  seed,
+}: {
+  className?: string;
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  seed: number | null;
+}) {
+  const workerRef = useRef<Worker | null>(null);
+  const [pathsInput, setPathsInput] = useState(String(DEFAULT_PATHS));
+  const [status, setStatus] = useState<RunStatus>({ state: "idle" });
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [runInputs, setRunInputs] = useState<RunInputs | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const paths = parsePaths(pathsInput);
+  const running = status.state === "running";
+  const stale =
+    runInputs !== null &&
+    (runInputs.scenarios !== scenarios ||
+      runInputs.pools !== pools ||
+      runInputs.pathSettings !== pathSettings ||
+      runInputs.seed !== seed);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  const handleRun = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (paths === null || seed === null) return;
+    stopWorker();
+
+    const worker = new Worker(
+      new URL("../workers/monteCarlo.worker.ts", import.meta.url)
+    );
+    workerRef.current = worker;
+    worker.onmessage = (message: MessageEvent<MonteCarloResponse>) => {
+      const response = message.data;
+      if (response.type === "progress") {
+        setStatus({
+          state: "running",
+          completed: response.completed,
+          total: response.total,
+        });
+      } else if (response.type === "result") {
+        setResult(response.result);
+        setStatus({ state: "idle" });
+        stopWorker();
+      } else {
+        setStatus({ state: "error", message: response.message });
+        stopWorker();
+      }
+    };
+    worker.onerror = (error) => {
+      setStatus({ state: "error", message: error.message });
+      stopWorker();
+    };
+
+    const request: MonteCarloRequest = {
+      scenarios: scenarios.map((scenario) => ({
+        id: scenario.id,
+        params: scenario.params,
+      })),
+      pools,
+      pathSettings,
+      paths,
+      seed,
+    };
+    worker.postMessage(request);
+    setRunInputs({ scenarios, pools, pathSettings, seed });
+    setStatus({ state: "running", completed: 0, total: paths });
+  };
+
+  const handleCancel = () => {
+    stopWorker();
+    setStatus({ state: "idle" });
+  };
+
+  const scenarioName = (id: ScenarioId) =>
+    (runInputs?.scenarios ?? scenarios).find((scenario) => scenario.id === id)
+      ?.name ?? id;
+  const scenarioIndex = (id: ScenarioId) =>
+    (runInputs?.scenarios ?? scenarios).findIndex(
+      (scenario) => scenario.id === id
+    );
+  const bandMax = Math.max(
+    0,
+    ...(result?.scenarios ?? []).flatMap((entry) =>
+      entry.bands.map((band) => band.p95)
+    )
+  );
+  const runPool = (key: PoolKey) =>
+    (runInputs?.pools ?? pools).find((pool) => pool.key === key);
+
+  return (
+    <div className={`space-y-6 ${className ?? ""}`}>
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <form
+          onSubmit={handleRun}
+          className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between"
+        >
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              Simulated Paths
+            </h2>
+            <p className="text-sm text-slate-500">
+              Each path is a fresh {pathSettings.days}-day event stream drawn
+              from seed {seed ?? "—"} and shared by every scenario, with pool
+              returns drawn around their expected values.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              Paths
+              <input
+                inputMode="numeric"
+                value={pathsInput}
+                onChange={(event) => setPathsInput(event.target.value)}
+                disabled={running}
+                aria-invalid={paths === null}
+                className={`w-28 rounded-lg border bg-white px-2 py-1.5 text-right font-mono text-sm text-slate-900 outline-none focus:border-slate-400 ${
+                  paths === null ? "border-rose-300" : "border-slate-200"
+                }`}
+              />
+            </label>
+            {running ? (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="rounded-xl border border-slate-300 px-5 py-2.5 text-sm font-semibold text-slate-700 transition hover:border-slate-400"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={paths === null || seed === null}
+                className="rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Run Monte Carlo
+              </button>
+            )}
+          </div>
+        </form>
+        {paths === null && (
+          <p className="mt-2 text-right text-xs text-rose-600">
+            Enter a whole number of paths between{" "}
+            {MIN_MONTE_CARLO_PATHS.toLocaleString("en-US")} and{" "}
+            {MAX_MONTE_CARLO_PATHS.toLocaleString("en-US")}.
+          </p>
+        )}
+        {status.state === "running" && (
+          <div className="mt-4">
+            <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+              <div
+                className="h-full rounded-full bg-slate-900 transition-[width]"
+                style={{
+                  width: `${(status.completed / status.total) * 100}%`,
+                }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-slate-500">
+              {status.completed.toLocaleString("en-US")} of{" "}
+              {status.total.toLocaleString("en-US")} paths
+            </p>
+          </div>
+        )}
+        {status.state === "error" && (
+          <p className="mt-3 text-sm text-rose-600">
+            Simulation failed: {status.message}
+          </p>
+        )}
+      </section>
+
+      {result ? (
+        <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-lg font-semibold text-slate-900">
+              Total Drag Distribution
+            </h2>
+            <p className="text-xs text-slate-500">
+              {result.paths.toLocaleString("en-US")} paths • seed {result.seed}
+            </p>
+          </div>
+          {stale && (
+            <p className="mt-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              Parameters or seed have changed since this run. Run again to
+              refresh the distribution.
+            </p>
+          )}
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Scenario</th>
+                  <th className="px-3 py-2 text-right">Mean</th>
+                  <th className="px-3 py-2 text-right">Median</th>
+                  <th className="px-3 py-2 text-right">P5</th>
+                  <th className="px-3 py-2 text-right">P95</th>
+                  <th className="px-3 py-2 text-right">Worst</th>
+                  <th className="px-3 py-2 text-right">Lowest Drag</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {result.scenarios.map((entry) => (
+                  <tr key={`mc-${entry.id}`} className="hover:bg-amber-50">
+                    <td className="px-3 py-2 font-semibold text-slate-900">
+                      {scenarioName(entry.id)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(entry.drag.mean)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(entry.drag.median)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(entry.drag.p5)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(entry.drag.p95)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(entry.drag.worst)}
+                    </td>
+                    <td className="px-3 py-2 text-right font-semibold text-slate-900">
+                      {formatPercent(entry.winProbability * 100)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="mt-6 text-sm font-semibold text-slate-900">
+            Cumulative Drag Bands
+          </h3>
+          <p className="text-xs text-slate-500">
+            Median cumulative drag over the horizon, with the P25–P75 and P5–P95
+            ranges across paths shaded. All charts share one scale.
+          </p>
+          <div className="mt-2 grid gap-6 lg:grid-cols-2">
+            {result.scenarios.map((entry) => (
+              <FanChart
+                key={`mc-fan-${entry.id}`}
+                title={scenarioName(entry.id)}
+                labels={entry.bands.map((band) => `Day ${band.day}`)}
+                bands={entry.bands}
+                color={
+                  SCENARIO_COLORS[
+                    Math.max(0, scenarioIndex(entry.id)) %
+                      SCENARIO_COLORS.length
+                  ]
+                }
+                format={(value) => formatMillions(value, 2)}
+                max={bandMax}
+              />
+            ))}
+          </div>
+
+          <h3 className="mt-6 text-sm font-semibold text-slate-900">
+            Head-to-Head
+          </h3>
+          <p className="text-xs text-slate-500">
+            Share of paths on which the row scenario had lower total drag than
+            the column scenario.
+          </p>
+          <div className="mt-2 overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Beats →</th>
+                  {result.scenarios.map((entry) => (
+                    <th
+                      key={`mc-col-${entry.id}`}
+                      className="px-3 py-2 text-right"
+                    >
+                      {scenarioName(entry.id)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {result.scenarios.map((row) => (
+                  <tr key={`mc-row-${row.id}`}>
+                    <td className="px-3 py-2 font-semibold text-slate-900">
+                      {scenarioName(row.id)}
+                    </td>
+                    {result.scenarios.map((column) => {
+                      const share = row.beats[column.id];
+                      return (
+                        <td
+                          key={`mc-${row.id}-${column.id}`}
+                          className="px-3 py-2 text-right"
+                        >
+                          {share === undefined
+                            ? "—"
+                            : formatPercent(share * 100)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="mt-6 text-sm font-semibold text-slate-900">
+            Return Draws
+          </h3>
+          <p className="text-xs text-slate-500">
+            Expected return drawn for each pool across paths. The drag
+            distribution above reflects these draws as well as the cash flows.
+            Pools with no return volatility keep their expected return, and two
+            pools&apos; draws correlate at the product of their market
+            correlations.
+          </p>
+          <div className="mt-2 overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Pool</th>
+                  <th className="px-3 py-2 text-right">Volatility</th>
+                  <th className="px-3 py-2 text-right">Market Corr.</th>
+                  <th className="px-3 py-2 text-right">Mean</th>
+                  <th className="px-3 py-2 text-right">P5</th>
+                  <th className="px-3 py-2 text-right">P95</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {result.pools.map((entry) => {
+                  const pool = runPool(entry.key);
+                  return (
+                    <tr key={`mc-pool-${entry.key}`}>
+                      <td className="px-3 py-2 font-semibold text-slate-900">
+                        {pool?.name ?? entry.key}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {pool ? formatPercent(pool.returnVolatility) : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {pool ? pool.returnCorrelation.toFixed(2) : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatPercent(entry.mean, 2)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatPercent(entry.p5, 2)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatPercent(entry.p95, 2)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : (
+        status.state !== "running" && (
+          <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
+            <p className="text-lg font-medium">No Monte Carlo run yet</p>
+            <p className="mt-2 text-sm">
+              Choose a number of paths and run the simulation to see drag
+              distributions for every scenario.
+            </p>
+          </section>
+        )
+      )}
+    </div>
+  );
+}
+
+function parsePaths(value: string) {
+  const trimmed = value.replace(/,/g, "").trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const paths = Number(trimmed);
+  return paths >= MIN_MONTE_CARLO_PATHS && paths <= MAX_MONTE_CARLO_PATHS
+    ? paths
+    : null;
+}
@@ -0,0 +1,618 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import type {
+  OptimizerRequest,
+  OptimizerResponse,
+} from "@/app/workers/optimizer.worker";
+import { formatFullDollars, formatMillions, formatPercent } from "@/lib/format";
+import {
+  MAX_OPTIMIZER_PATHS,
+  MIN_OPTIMIZER_PATHS,
+  gridLevels,
+  holdsReserve,
+  type OptimizerCandidate,
+  type OptimizerResult,
+  type PathSettings,
+  type PoolConfig,
+  type ScenarioConfig,
+  type ScenarioId,
+} from "@/lib/simulation";
+
+type RunStatus =
+  | { state: "idle" }
+  | { state: "running"; completed: number; total: number }
+  | { state: "error"; message: string };
+
+interface RunInputs {
+  scenario: ScenarioConfig;
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  seed: number;
+}
+
+type DraftKey =
+  | "paths"
+  | "maxCashPool"
+  | "cashPoolStep"
+  | "maxPrefunding"
+  | "prefundingStep"
+  | "shortfallLimit";
+
+const DEFAULT_DRAFT: Record<DraftKey, string> = {
+  paths: "250",
+  maxCashPool: "200",
+  cashPoolStep: "20",
+  maxPrefunding: "40",
+  prefundingStep: "10",
+  shortfallLimit: "1",
+};
+
+const GRID_FIELDS: { key: DraftKey; label: string; suffix: string }[] = [
+  { key: "maxCashPool", label: "Cash pool up to", suffix: "$M" },
+  { key: "cashPoolStep", label: "in steps of", suffix: "$M" },
+  { key: "maxPrefunding", label: "Pre-funding up to", suffix: "$M" },
+  { key: "prefundingStep", label: "in steps of", suffix: "$M" },
+  { key: "shortfallLimit", label: "Shortfall risk ≤", suffix: "%" },
+];
+
+/** Most grid points the first stage of the search may try. */
+const MAX_GRID_POINTS = 500;
+
+/**
+ * Searches one scenario's cash pool size and per-pool pre-funding for the
+ * lowest expected drag within a shortfall-risk limit, and plots the
+ * frontier of drag against risk.
+ */
+export function OptimizerPanel({
+  className,
+  scenarios,
+  pools,
+  pathSettings,
+  seed,
+  onApply,
+}: {
+  className?: string;
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  seed: number | null;
+  onApply: (scenario: ScenarioConfig) => void;
+}) {
+  const workerRef = useRef<Worker | null>(null);
+  const [scenarioId, setScenarioId] = useState<ScenarioId>(
+    () =>
+      (
+        scenarios.find((scenario) => scenario.params.funding === "internal") ??
+        scenarios[0]
+      ).id
+  );
+  const [draft, setDraft] = useState(DEFAULT_DRAFT);
+  const [status, setStatus] = useState<RunStatus>({ state: "idle" });
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [runInputs, setRunInputs] = useState<RunInputs | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const scenario =
+    scenarios.find((entry) => entry.id === scenarioId) ?? scenarios[0];
+  const searchesCashPool = holdsReserve(scenario.params.funding);
+  const settings = parseDraft(draft);
+  const gridPoints = settings
+    ? (searchesCashPool
+        ? gridSize(settings.maxCashPool, settings.cashPoolStep)
+        : 1) * gridSize(settings.maxPrefunding, settings.prefundingStep)
+    : 0;
+  const error =
+    settings === null
+      ? `Enter ${MIN_OPTIMIZER_PATHS}–${MAX_OPTIMIZER_PATHS.toLocaleString(
+          "en-US"
+        )} paths, non-negative limits with positive steps and a risk limit of 0–100%.`
+      : gridPoints > MAX_GRID_POINTS
+      ? `The grid has ${gridPoints} points; use larger steps to keep it to ${MAX_GRID_POINTS}.`
+      : null;
+  const running = status.state === "running";
+  const runScenario = runInputs
+    ? scenarios.find((entry) => entry.id === runInputs.scenario.id)
+    : undefined;
+  const stale =
+    runInputs !== null &&
+    (runScenario !== runInputs.scenario ||
+      runInputs.pools !== pools ||
+      runInputs.pathSettings !== pathSettings ||
+      runInputs.seed !== seed);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  const handleRun = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (settings === null || error !== null || seed === null) return;
+    stopWorker();
+
+    const worker = new Worker(
+      new URL("../workers/optimizer.worker.ts", import.meta.url)
+    );
+    workerRef.current = worker;
+    worker.onmessage = (message: MessageEvent<OptimizerResponse>) => {
+      const response = message.data;
+      if (response.type === "progress") {
+        setStatus({
+          state: "running",
+          completed: response.completed,
+          total: response.total,
+        });
+      } else if (response.type === "result") {
+        setResult(response.result);
+        setStatus({ state: "idle" });
+        stopWorker();
+      } else {
+        setStatus({ state: "error", message: response.message });
+        stopWorker();
+      }
+    };
+    worker.onerror = (workerError) => {
+      setStatus({ state: "error", message: workerError.message });
+      stopWorker();
+    };
+
+    const request: OptimizerRequest = {
+      params: scenario.params,
+      pools,
+      pathSettings,
+      paths: settings.paths,
+      seed,
+      cashPoolSizes: gridLevels(settings.maxCashPool, settings.cashPoolStep),
+      prefundingLevels: gridLevels(
+        settings.maxPrefunding,
+        settings.prefundingStep
+      ),
+      maxShortfallProbability: settings.maxShortfallProbability,
+    };
+    worker.postMessage(request);
+    setRunInputs({ scenario, pools, pathSettings, seed });
+    setStatus({ state: "running", completed: 0, total: 1 });
+  };
+
+  const handleCancel = () => {
+    stopWorker();
+    setStatus({ state: "idle" });
+  };
+
+  const handleApply = (candidate: OptimizerCandidate) => {
+    if (!runScenario) return;
+    onApply({
+      ...runScenario,
+      params: {
+        ...runScenario.params,
+        cashPool: candidate.cashPool,
+        startingCash: candidate.startingCash,
+      },
+    });
+  };
+
+  const runPools = runInputs?.pools ?? pools;
+  const describePrefunding = (candidate: OptimizerCandidate) =>
+    runPools
+      .map((pool) => formatMillions(candidate.startingCash[pool.key] ?? 0, 0))
+      .join(" / ");
+
+  return (
+    <div className={`space-y-6 ${className ?? ""}`}>
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <form onSubmit={handleRun} className="space-y-4">
+          <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">
+                Search Grid
+              </h2>
+              <p className="text-sm text-slate-500">
+                Every candidate is scored on the same {pathSettings.days}-day
+                paths drawn from seed {seed ?? "—"}. A path counts as a
+                shortfall if any call goes unfunded or the cash pool is
+                overdrawn.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                Scenario
+                <select
+                  value={scenario.id}
+                  onChange={(event) => setScenarioId(event.target.value)}
+                  disabled={running}
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:border-slate-400"
+                >
+                  {scenarios.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                Paths
+                <input
+                  inputMode="numeric"
+                  value={draft.paths}
+                  onChange={(event) =>
+                    setDraft({ ...draft, paths: event.target.value })
+                  }
+                  disabled={running}
+                  className="w-20 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-right font-mono text-sm text-slate-900 outline-none focus:border-slate-400"
+                />
+              </label>
+              {running ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="rounded-xl border border-slate-300 px-5 py-2.5 text-sm font-semibold text-slate-700 transition hover:border-slate-400"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={error !== null || seed === null}
+                  className="rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Optimize
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {GRID_FIELDS.filter(
+              (field) =>
+                searchesCashPool ||
+                (field.key !== "maxCashPool" && field.key !== "cashPoolStep")
+            ).map((field) => (
+              <label
+                key={field.key}
+                className="flex items-center gap-2 text-sm text-slate-700"
+              >
+                {field.label}
+                <input
+                  inputMode="decimal"
+                  value={draft[field.key]}
+                  onChange={(event) =>
+                    setDraft({ ...draft, [field.key]: event.target.value })
+                  }
+                  disabled={running}
+                  className="w-16 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-right font-mono text-sm text-slate-900 outline-none focus:border-slate-400"
+                />
+                <span className="text-xs text-slate-500">{field.suffix}</span>
+              </label>
+            ))}
+          </div>
+        </form>
+        {!searchesCashPool && (
+          <p className="mt-2 text-xs text-slate-500">
+            This scenario holds no cash pool, so only pre-funding is searched.
+          </p>
+        )}
+        {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+        {status.state === "running" && (
+          <div className="mt-4">
+            <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+              <div
+                className="h-full rounded-full bg-slate-900 transition-[width]"
+                style={{
+                  width: `${(status.completed / status.total) * 100}%`,
+                }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-slate-500">
+              {status.completed.toLocaleString("en-US")} of{" "}
+              {status.total.toLocaleString("en-US")} candidates
+            </p>
+          </div>
+        )}
+        {status.state === "error" && (
+          <p className="mt-3 text-sm text-rose-600">
+            Optimization failed: {status.message}
+          </p>
+        )}
+      </section>
+
+      {result && runInputs ? (
+        <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-lg font-semibold text-slate-900">
+              {runInputs.scenario.name}
+            </h2>
+            <p className="text-xs text-slate-500">
+              {result.candidates.length} candidates •{" "}
+              {result.paths.toLocaleString("en-US")} paths • seed {result.seed}
+            </p>
+          </div>
+          {stale && (
+            <p className="mt-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              Parameters or seed have changed since this run. Optimize again to
+              refresh the frontier.
+            </p>
+          )}
+          {result.best === null && (
+            <p className="mt-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+              No candidate kept the shortfall risk within{" "}
+              {formatPercent(result.maxShortfallProbability * 100)}. Widen the
+              grid or relax the limit.
+            </p>
+          )}
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left" />
+                  <th className="px-3 py-2 text-right">Cash Pool</th>
+                  <th className="px-3 py-2 text-right">
+                    Pre-Funding ({runPools.map((pool) => pool.key).join(" / ")})
+                  </th>
+                  <th className="px-3 py-2 text-right">Mean Drag</th>
+                  <th className="px-3 py-2 text-right">P95 Drag</th>
+                  <th className="px-3 py-2 text-right">Shortfall Risk</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {[
+                  { label: "Current", candidate: result.current },
+                  ...(result.best
+                    ? [{ label: "Optimal", candidate: result.best }]
+                    : []),
+                  ...result.frontier
+                    .filter(
+                      (candidate) =>
+                        candidate !== result.best &&
+                        candidate !== result.current
+                    )
+                    .map((candidate) => ({ label: "Frontier", candidate })),
+                ].map(({ label, candidate }, index) => (
+                  <tr
+                    key={`${label}-${index}`}
+                    className={
+                      label === "Optimal"
+                        ? "bg-emerald-50"
+                        : "hover:bg-amber-50"
+                    }
+                  >
+                    <td className="px-3 py-2 font-semibold text-slate-900">
+                      {label}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatMillions(candidate.cashPool, 0)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {describePrefunding(candidate)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(candidate.meanDrag)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatFullDollars(candidate.p95Drag)}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right font-semibold ${
+                        candidate.feasible ? "text-slate-900" : "text-rose-600"
+                      }`}
+                    >
+                      {formatPercent(candidate.shortfallProbability * 100)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {label !== "Current" && runScenario && (
+                        <button
+                          type="button"
+                          onClick={() => handleApply(candidate)}
+                          className="rounded-full px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 hover:text-slate-900"
+                        >
+                          Apply
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="mt-6 text-sm font-semibold text-slate-900">
+            Efficient Frontier
+          </h3>
+          <p className="text-xs text-slate-500">
+            Mean total drag against the share of paths with a shortfall. The
+            line joins candidates that no other beats on both; the dashed line
+            is the risk limit.
+          </p>
+          <FrontierChart result={result} />
+        </section>
+      ) : (
+        status.state !== "running" && (
+          <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
+            <p className="text-lg font-medium">No optimization run yet</p>
+            <p className="mt-2 text-sm">
+              Choose a scenario and a search grid, then optimize to find the
+              cash pool and pre-funding with the least drag.
+            </p>
+          </section>
+        )
+      )}
+    </div>
+  );
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 260;
+const CHART_PADDING = { top: 12, right: 16, bottom: 36, left: 72 };
+
+function FrontierChart({ result }: { result: OptimizerResult }) {
+  const drags = result.candidates.map((candidate) => candidate.meanDrag);
+  const minDrag = Math.min(...drags);
+  const maxDrag = Math.max(...drags);
+  const dragSpan = maxDrag - minDrag || 1;
+  const maxRisk = Math.max(
+    result.maxShortfallProbability,
+    ...result.candidates.map((candidate) => candidate.shortfallProbability)
+  );
+  const riskSpan = maxRisk || 1;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (risk: number) =>
+    CHART_PADDING.left + (risk / riskSpan) * plotWidth;
+  const y = (drag: number) =>
+    CHART_PADDING.top + (1 - (drag - minDrag) / dragSpan) * plotHeight;
+  const point = (candidate: OptimizerCandidate) => ({
+    cx: x(candidate.shortfallProbability),
+    cy: y(candidate.meanDrag),
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="mt-2 w-full max-w-3xl text-slate-500"
+      role="img"
+      aria-label="Mean drag against shortfall risk"
+    >
+      <line
+        x1={CHART_PADDING.left}
+        x2={CHART_PADDING.left}
+        y1={CHART_PADDING.top}
+        y2={CHART_PADDING.top + plotHeight}
+        stroke="#cbd5e1"
+      />
+      <line
+        x1={CHART_PADDING.left}
+        x2={CHART_PADDING.left + plotWidth}
+        y1={CHART_PADDING.top + plotHeight}
+        y2={CHART_PADDING.top + plotHeight}
+        stroke="#cbd5e1"
+      />
+      <line
+        x1={x(result.maxShortfallProbability)}
+        x2={x(result.maxShortfallProbability)}
+        y1={CHART_PADDING.top}
+        y2={CHART_PADDING.top + plotHeight}
+        stroke="#f43f5e"
+        strokeDasharray="4 4"
+      />
+      {[minDrag, maxDrag].map((drag) => (
+        <text
+          key={`drag-${drag}`}
+          x={CHART_PADDING.left - 8}
+          y={y(drag) + 4}
+          textAnchor="end"
+          fontSize={11}
+          fill="currentColor"
+        >
+          {formatMillions(drag, 2)}
+        </text>
+      ))}
+      {[0, maxRisk].map((risk) => (
+        <text
+          key={`risk-${risk}`}
+          x={x(risk)}
+          y={CHART_PADDING.top + plotHeight + 16}
+          textAnchor="middle"
+          fontSize={11}
+          fill="currentColor"
+        >
+          {formatPercent(risk * 100)}
+        </text>
+      ))}
+      <text
+        x={CHART_PADDING.left + plotWidth / 2}
+        y={CHART_HEIGHT - 4}
+        textAnchor="middle"
+        fontSize={11}
+        fill="currentColor"
+      >
+        Shortfall risk
+      </text>
+      {result.candidates.map((candidate, index) => (
+        <circle
+          key={`candidate-${index}`}
+          {...point(candidate)}
+          r={3}
+          fill="#cbd5e1"
+        />
+      ))}
+      <polyline
+        points={result.frontier
+          .map((candidate) => {
+            const { cx, cy } = point(candidate);
+            return `${cx},${cy}`;
+          })
+          .join(" ")}
+        fill="none"
+        stroke="#0f172a"
+        strokeWidth={1.5}
+      />
+      {result.frontier.map((candidate, index) => (
+        <circle
+          key={`frontier-${index}`}
+          {...point(candidate)}
+          r={3.5}
+          fill="#0f172a"
+        />
+      ))}
+      <circle
+        {...point(result.current)}
+        r={6}
+        fill="none"
+        stroke="#f59e0b"
+        strokeWidth={2}
+      >
+        <title>Current</title>
+      </circle>
+      {result.best && (
+        <circle
+          {...point(result.best)}
+          r={6}
+          fill="none"
+          stroke="#10b981"
+          strokeWidth={2}
+        >
+          <title>Optimal</title>
+        </circle>
+      )}
+    </svg>
+  );
+}
+
+function parseDraft(draft: Record<DraftKey, string>) {
+  const number = (key: DraftKey) => {
+    const trimmed = draft[key].replace(/,/g, "").trim();
+    return trimmed === "" ? Number.NaN : Number(trimmed);
+  };
+  const paths = number("paths");
+  const maxCashPool = number("maxCashPool");
+  const cashPoolStep = number("cashPoolStep");
+  const maxPrefunding = number("maxPrefunding");
+  const prefundingStep = number("prefundingStep");
+  const shortfallLimit = number("shortfallLimit");
+  if (
+    !Number.isInteger(paths) ||
+    paths < MIN_OPTIMIZER_PATHS ||
+    paths > MAX_OPTIMIZER_PATHS ||
+    !(Number.isFinite(maxCashPool) && maxCashPool >= 0) ||
+    !(Number.isFinite(cashPoolStep) && cashPoolStep > 0) ||
+    !(Number.isFinite(maxPrefunding) && maxPrefunding >= 0) ||
+    !(Number.isFinite(prefundingStep) && prefundingStep > 0) ||
+    !(shortfallLimit >= 0 && shortfallLimit <= 100)
+  ) {
+    return null;
+  }
+  return {
+    paths,
+    maxCashPool,
+    cashPoolStep,
+    maxPrefunding,
+    prefundingStep,
+    maxShortfallProbability: shortfallLimit / 100,
+  };
+}
+
+/** Number of levels `gridLevels` returns, without building them. */
+function gridSize(max: number, step: number) {
+  return Math.ceil(max / step - 1e-9) + 1;
+}
@@ -0,0 +1,1343 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import { ScheduleImport } from "@/app/components/ScheduleImport";
+import {
+  BASE_RATE_KINDS,
+  DAY_COUNTS,
+  FUNDING_PRESETS,
+  SETTLEMENT_FREQUENCIES,
+  SIZE_DISTRIBUTIONS,
+  correlationKey,
+  createPool,
+  hasErrors,
+  horizonDays,
+  parseRateCurveCsv,
+  validatePathSettings,
+  validatePool,
+  validateScenario,
+  type BaseRateKind,
+  type BusinessCalendar,
+  type CashFlowSchedule,
+  type DayCount,
+  type FundingMode,
+  type PathSettings,
+  type PoolConfig,
+  type PoolKey,
+  type RatePoint,
+  type ScenarioConfig,
+  type ScenarioId,
+  type SettlementFrequency,
+  type SizeDistribution,
+  type ValidationErrors,
+} from "@/lib/simulation";
+
+type Draft = Record<string, string>;
+
+interface FieldSpec {
+  key: string;
+  label: string;
+  unit: string;
+  /** Funding modes the field applies to; shown for every mode when omitted. */
+  modes?: FundingMode[];
+  placeholder?: string;
+}
+
+interface SelectSpec {
+  key: string;
+  label: string;
+  options: { value: string; label: string }[];
+  modes?: FundingMode[];
+}
+
+const LINE_MODES: FundingMode[] = ["loc", "hybrid"];
+
+const RATE_FIELDS: FieldSpec[] = [
+  {
+    key: "borrowRate",
+    label: "Borrow rate",
+    unit: "%",
+    modes: ["prefunded", "internal", "hybrid"],
+  },
+  {
+    key: "lineRate",
+    label: "External line rate",
+    unit: "%",
+    modes: LINE_MODES,
+  },
+  { key: "idleRate", label: "Idle cash rate", unit: "%" },
+];
+
+/** The `rateBasis` entry behind each rate field. */
+const RATE_BASIS_KEYS: Record<string, string> = {
+  borrowRate: "borrow",
+  lineRate: "line",
+  idleRate: "idle",
+};
+
+const RATE_BASIS_OPTIONS = [
+  { value: "false", label: "Fixed" },
+  { value: "true", label: "Base + spread" },
+];
+
+const RATE_BASIS_FIELDS: SelectSpec[] = RATE_FIELDS.map((field) => ({
+  key: `rateBasis.${RATE_BASIS_KEYS[field.key]}.floating`,
+  label: field.label,
+  options: RATE_BASIS_OPTIONS,
+  modes: field.modes,
+}));
+
+const FACILITY_FIELDS: FieldSpec[] = [
+  { key: "facility.commitment", label: "Commitment", unit: "$M" },
+  { key: "facility.undrawnFee", label: "Undrawn fee", unit: "%" },
+  { key: "facility.upfrontFee", label: "Upfront fee", unit: "%" },
+  { key: "facility.tenor", label: "Tenor", unit: "yrs" },
+];
+
+const ALERT_FIELDS: FieldSpec[] = [
+  { key: "alerts.borrowLimit", label: "Borrow limit", unit: "$M" },
+  { key: "alerts.repaymentDays", label: "Repay within", unit: "days" },
+  { key: "alerts.interestGraceDays", label: "Interest grace", unit: "days" },
+];
+
+const DAY_COUNT_OPTIONS = DAY_COUNTS.map((value) => ({ value, label: value }));
+
+const FREQUENCY_OPTIONS = SETTLEMENT_FREQUENCIES.map((value) => ({
+  value,
+  label: `${value[0].toUpperCase()}${value.slice(1)}`,
+}));
+
+const DAY_COUNT_FIELDS: SelectSpec[] = [
+  {
+    key: "dayCounts.borrow",
+    label: "Cash pool borrowing",
+    options: DAY_COUNT_OPTIONS,
+    modes: ["prefunded", "internal", "hybrid"],
+  },
+  {
+    key: "dayCounts.line",
+    label: "External line and fees",
+    options: DAY_COUNT_OPTIONS,
+    modes: LINE_MODES,
+  },
+  { key: "dayCounts.idle", label: "Idle cash", options: DAY_COUNT_OPTIONS },
+];
+
+const SETTLEMENT_FIELDS: SelectSpec[] = [
+  {
+    key: "settlement.borrow.frequency",
+    label: "Borrow interest settles",
+    options: FREQUENCY_OPTIONS,
+  },
+  {
+    key: "settlement.borrow.capitalize",
+    label: "Unpaid borrow interest",
+    options: [
+      { value: "false", label: "Stays due" },
+      { value: "true", label: "Capitalized" },
+    ],
+  },
+  {
+    key: "settlement.idle.frequency",
+    label: "Idle interest settles",
+    options: FREQUENCY_OPTIONS,
+  },
+  {
+    key: "settlement.idle.capitalize",
+    label: "Settled idle interest",
+    options: [
+      { value: "true", label: "Added to cash" },
+      { value: "false", label: "Swept out" },
+    ],
+  },
+];
+
+const PATH_FIELDS: FieldSpec[] = [
+  { key: "days", label: "Days simulated", unit: "days" },
+];
+
+const BASE_RATE_KIND_LABELS: Record<BaseRateKind, string> = {
+  flat: "Flat",
+  steps: "Step changes",
+  curve: "Forward curve",
+  simulated: "Simulated",
+};
+
+const BASE_RATE_KIND_OPTIONS = BASE_RATE_KINDS.map((value) => ({
+  value,
+  label: BASE_RATE_KIND_LABELS[value],
+}));
+
+const BASE_RATE_FIELDS: FieldSpec[] = [
+  { key: "baseRate.rate", label: "Starting rate", unit: "%" },
+];
+
+const SIMULATED_RATE_FIELDS: FieldSpec[] = [
+  { key: "baseRate.longRunRate", label: "Long-run rate", unit: "%" },
+  { key: "baseRate.meanReversion", label: "Mean reversion", unit: "/yr" },
+  { key: "baseRate.volatility", label: "Volatility", unit: "%" },
+];
+
+const REGIME_FIELDS: FieldSpec[] = [
+  {
+    key: "eventModel.regime.stressProbability",
+    label: "Daily chance of stress",
+    unit: "%",
+  },
+  {
+    key: "eventModel.regime.recoveryProbability",
+    label: "Daily chance of recovery",
+    unit: "%",
+  },
+  {
+    key: "eventModel.regime.callMultiplier",
+    label: "Calls while stressed",
+    unit: "×",
+  },
+  {
+    key: "eventModel.regime.distributionMultiplier",
+    label: "Distributions while stressed",
+    unit: "×",
+  },
+];
+
+const SIZE_DISTRIBUTION_LABELS: Record<SizeDistribution, string> = {
+  normal: "Normal",
+  uniform: "Uniform",
+  lognormal: "Lognormal (skewed)",
+};
+
+const SIZE_DISTRIBUTION_OPTIONS = SIZE_DISTRIBUTIONS.map((value) => ({
+  value,
+  label: SIZE_DISTRIBUTION_LABELS[value],
+}));
+
+const POOL_FIELDS: FieldSpec[] = [
+  { key: "expectedReturn", label: "Expected return", unit: "%" },
+  { key: "returnVolatility", label: "Return volatility", unit: "%" },
+  { key: "returnCorrelation", label: "Market correlation", unit: "" },
+  { key: "callProbability", label: "Daily call probability", unit: "%" },
+  {
+    key: "distributionProbability",
+    label: "Daily distribution probability",
+    unit: "%",
+  },
+  { key: "minSize", label: "Minimum event size", unit: "$M" },
+  { key: "maxSize", label: "Maximum event size", unit: "$M" },
+];
+
+const FUNDING_OPTIONS: { value: FundingMode; label: string }[] = [
+  { value: "prefunded", label: "Pre-funded pools" },
+  { value: "internal", label: "Internal cash pool" },
+  { value: "loc", label: "External line of credit" },
+  { value: "hybrid", label: "Hybrid pool + LOC" },
+];
+
+const HORIZON_YEARS = [1, 2, 3, 5, 10];
+
+const CALENDAR_OPTIONS: { value: BusinessCalendar; label: string }[] = [
+  { value: "weekends", label: "Weekends only" },
+  { value: "us", label: "US federal holidays" },
+];
+
+export function ParameterPanel({
+  scenario,
+  scenarios,
+  onScenarioChange,
+  onCloneScenario,
+  onDeleteScenario,
+  pathSettings,
+  defaultPathSettings,
+  onPathSettingsChange,
+  schedule,
+  onScheduleChange,
+  pools,
+  defaultPools,
+  onPoolsChange,
+}: {
+  scenario: ScenarioConfig;
+  scenarios: ScenarioConfig[];
+  onScenarioChange: (scenario: ScenarioConfig) => void;
+  onCloneScenario: (scenario: ScenarioConfig) => void;
+  onDeleteScenario: (id: ScenarioId) => void;
+  pathSettings: PathSettings;
+  defaultPathSettings: PathSettings;
+  onPathSettingsChange: (settings: PathSettings) => void;
+  schedule: CashFlowSchedule | null;
+  onScheduleChange: (schedule: CashFlowSchedule | null) => void;
+  pools: PoolConfig[];
+  defaultPools: PoolConfig[];
+  onPoolsChange: (pools: PoolConfig[]) => void;
+}) {
+  return (
+    <aside className="space-y-4 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <ScenarioForm
+        scenario={scenario}
+        scenarios={scenarios}
+        pools={pools}
+        onChange={onScenarioChange}
+        onClone={() => onCloneScenario(scenario)}
+        onDelete={
+          scenarios.length > 1 ? () => onDeleteScenario(scenario.id) : undefined
+        }
+      />
+      <PathSettingsForm
+        settings={pathSettings}
+        defaultSettings={defaultPathSettings}
+        onChange={onPathSettingsChange}
+        schedule={schedule}
+        onScheduleChange={onScheduleChange}
+        pools={pools}
+      />
+      <PoolsForm
+        pools={pools}
+        defaultPools={defaultPools}
+        onChange={onPoolsChange}
+      />
+    </aside>
+  );
+}
+
+function ScenarioForm({
+  scenario,
+  scenarios,
+  pools,
+  onChange,
+  onClone,
+  onDelete,
+}: {
+  scenario: ScenarioConfig;
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  onChange: (scenario: ScenarioConfig) => void;
+  onClone: () => void;
+  onDelete?: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft>(() =>
+    scenarioToDraft(scenario, pools)
+  );
+  const [errors, setErrors] = useState<ValidationErrors>({});
+  const cashFields: FieldSpec[] = [
+    {
+      key: "cashPool",
+      label: "Cash pool size",
+      unit: "$M",
+      modes: ["internal", "hybrid"],
+    },
+    {
+      key: "cashPoolFloor",
+      label: "Cash pool minimum balance",
+      unit: "$M",
+      modes: ["hybrid"],
+    },
+    ...pools.map((pool) => ({
+      key: startingCashKey(pool.key),
+      label: `${pool.name} starting cash`,
+      unit: "$M",
+    })),
+  ];
+  const facilityFields: FieldSpec[] = [
+    ...FACILITY_FIELDS,
+    ...pools.map((pool) => ({
+      key: sublimitKey(pool.key),
+      label: `${pool.name} sublimit`,
+      unit: "$M",
+      placeholder: "None",
+    })),
+  ];
+  const values = { ...scenarioToDraft(scenario, pools), ...draft };
+  const appliesToFunding = (field: { modes?: FundingMode[] }) =>
+    !field.modes || field.modes.includes(scenario.params.funding);
+  // A floating rate is entered as a spread over the base rate.
+  const rateFields = RATE_FIELDS.map((field): FieldSpec => {
+    const basis = RATE_BASIS_KEYS[field.key];
+    return values[`rateBasis.${basis}.floating`] === "true"
+      ? {
+          ...field,
+          key: `rateBasis.${basis}.spread`,
+          label: `${field.label} spread`,
+          unit: "bps",
+        }
+      : field;
+  });
+
+  const handleFieldChange = (key: string, value: string) => {
+    const nextDraft = { ...values, [key]: value };
+    const nextScenario = draftToScenario(nextDraft, scenario, pools);
+    const nextErrors = validateScenario(nextScenario, scenarios);
+    setDraft(nextDraft);
+    setErrors(nextErrors);
+    if (!hasErrors(nextErrors)) {
+      onChange(nextScenario);
+    }
+  };
+
+  const handleFundingChange = (funding: FundingMode) => {
+    onChange({ ...scenario, params: { ...scenario.params, funding } });
+  };
+
+  const handleReset = () => {
+    const next = {
+      ...scenario,
+      params: FUNDING_PRESETS[scenario.params.funding],
+    };
+    setDraft(scenarioToDraft(next, pools));
+    setErrors({});
+    onChange(next);
+  };
+
+  return (
+    <section className="space-y-4">
+      <PanelHeader
+        eyebrow="Scenario Parameters"
+        title={scenario.name}
+        onReset={handleReset}
+      />
+      <div className="space-y-2">
+        <TextField
+          id="scenario-name"
+          label="Name"
+          value={values.name}
+          error={errors.name}
+          onChange={(value) => handleFieldChange("name", value)}
+        />
+        <SelectField
+          id="scenario-funding"
+          label="Funding"
+          value={scenario.params.funding}
+          options={FUNDING_OPTIONS}
+          onChange={(value) => handleFundingChange(value as FundingMode)}
+        />
+        <div className="flex justify-end gap-2 pt-1">
+          <button
+            type="button"
+            onClick={onClone}
+            className="rounded-full px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 hover:text-slate-900"
+          >
+            Clone scenario
+          </button>
+          <button
+            type="button"
+            onClick={onDelete}
+            disabled={!onDelete}
+            className="rounded-full px-3 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Delete scenario
+          </button>
+        </div>
+      </div>
+      <FieldGroup
+        title="Starting Cash"
+        fields={cashFields.filter(appliesToFunding)}
+        draft={values}
+        errors={errors}
+        onChange={handleFieldChange}
+      />
+      <SelectGroup
+        title="Rate Basis"
+        fields={RATE_BASIS_FIELDS.filter(appliesToFunding)}
+        draft={values}
+        onChange={handleFieldChange}
+      />
+      <FieldGroup
+        title="Rates"
+        fields={rateFields.filter(appliesToFunding)}
+        draft={values}
+        errors={errors}
+        onChange={handleFieldChange}
+      />
+      {LINE_MODES.includes(scenario.params.funding) && (
+        <FieldGroup
+          title="Credit Facility"
+          fields={facilityFields}
+          draft={values}
+          errors={errors}
+          onChange={handleFieldChange}
+        />
+      )}
+      <SelectGroup
+        title="Day Counts"
+        fields={DAY_COUNT_FIELDS.filter(appliesToFunding)}
+        draft={values}
+        onChange={handleFieldChange}
+      />
+      <SelectGroup
+        title="Interest Settlement"
+        fields={SETTLEMENT_FIELDS}
+        draft={values}
+        onChange={handleFieldChange}
+      />
+      <FieldGroup
+        title="Liquidity Alerts"
+        fields={ALERT_FIELDS}
+        draft={values}
+        errors={errors}
+        onChange={handleFieldChange}
+      />
+    </section>
+  );
+}
+
+function PathSettingsForm({
+  settings,
+  defaultSettings,
+  onChange,
+  schedule,
+  onScheduleChange,
+  pools,
+}: {
+  settings: PathSettings;
+  defaultSettings: PathSettings;
+  onChange: (settings: PathSettings) => void;
+  schedule: CashFlowSchedule | null;
+  onScheduleChange: (schedule: CashFlowSchedule | null) => void;
+  pools: PoolConfig[];
+}) {
+  const [draft, setDraft] = useState<Draft>(() =>
+    pathSettingsToDraft(settings, pools)
+  );
+  const [errors, setErrors] = useState<ValidationErrors>({});
+  const values = { ...pathSettingsToDraft(settings, pools), ...draft };
+
+  const handleFieldChange = (key: string, value: string) => {
+    const nextDraft = { ...values, [key]: value };
+    const nextSettings = draftToPathSettings(nextDraft, pools);
+    const nextErrors = validatePathSettings(nextSettings, pools);
+    setDraft(nextDraft);
+    setErrors(nextErrors);
+    if (!hasErrors(nextErrors)) {
+      onChange(nextSettings);
+    }
+  };
+
+  const horizonOptions = [
+    { value: "", label: "Custom" },
+    ...HORIZON_YEARS.map((years) => ({
+      value: String(horizonDays(settings.startDate, years)),
+      label: `${years} year${years === 1 ? "" : "s"}`,
+    })),
+  ];
+  const horizon = horizonOptions.some(
+    (option) => option.value === String(settings.days)
+  )
+    ? String(settings.days)
+    : "";
+
+  const handleReset = () => {
+    setDraft(pathSettingsToDraft(defaultSettings, pools));
+    setErrors({});
+    onChange(defaultSettings);
+  };
+
+  const handleCurveImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const result = parseRateCurveCsv(await file.text());
+    if (!result.ok) {
+      setErrors({
+        ...errors,
+        "baseRate.points": `Could not import ${file.name}: ${result.error}`,
+      });
+      return;
+    }
+    handleFieldChange("baseRate.points", formatRatePoints(result.points));
+  };
+
+  const baseRateKind = values["baseRate.kind"] as BaseRateKind;
+  const correlationFields = poolPairs(pools).map(
+    ([a, b]): FieldSpec => ({
+      key: correlationDraftKey(a.key, b.key),
+      label: `${a.name} / ${b.name}`,
+      unit: "ρ",
+    })
+  );
+  const stressRegime = values["eventModel.regime.enabled"] === "true";
+
+  return (
+    <section className="space-y-4 border-t border-slate-100 pt-4">
+      <PanelHeader
+        eyebrow="Event Path"
+        title="Shared by all scenarios"
+        onReset={handleReset}
+      />
+      {!schedule && (
+        <div className="space-y-2">
+          <SelectField
+            id="param-horizon"
+            label="Horizon"
+            value={horizon}
+            options={horizonOptions}
+            onChange={(value) => {
+              if (value !== "") handleFieldChange("days", value);
+            }}
+          />
+          <FieldGroup
+            fields={PATH_FIELDS}
+            draft={values}
+            errors={errors}
+            onChange={handleFieldChange}
+          />
+          <TextField
+            id="param-startDate"
+            type="date"
+            label="Start date"
+            value={values.startDate}
+            error={errors.startDate}
+            onChange={(value) => handleFieldChange("startDate", value)}
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <SelectField
+          id="param-calendar"
+          label="Holiday calendar"
+          value={values.calendar}
+          options={CALENDAR_OPTIONS}
+          onChange={(value) => handleFieldChange("calendar", value)}
+        />
+        <TextField
+          id="param-holidays"
+          label="Extra holidays"
+          placeholder="YYYY-MM-DD, …"
+          value={values.holidays}
+          error={errors.holidays}
+          onChange={(value) => handleFieldChange("holidays", value)}
+        />
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Base Rate
+        </legend>
+        <TextField
+          id="param-baseRate-name"
+          label="Name"
+          value={values["baseRate.name"]}
+          error={errors["baseRate.name"]}
+          onChange={(value) => handleFieldChange("baseRate.name", value)}
+        />
+        <SelectField
+          id="param-baseRate-kind"
+          label="Path"
+          value={baseRateKind}
+          options={BASE_RATE_KIND_OPTIONS}
+          onChange={(value) => handleFieldChange("baseRate.kind", value)}
+        />
+        <FieldGroup
+          fields={
+            baseRateKind === "simulated"
+              ? [...BASE_RATE_FIELDS, ...SIMULATED_RATE_FIELDS]
+              : BASE_RATE_FIELDS
+          }
+          draft={values}
+          errors={errors}
+          onChange={handleFieldChange}
+        />
+        {(baseRateKind === "steps" || baseRateKind === "curve") && (
+          <>
+            <TextField
+              id="param-baseRate-points"
+              label={baseRateKind === "steps" ? "Rate changes" : "Curve points"}
+              placeholder="YYYY-MM-DD 4.25, …"
+              value={values["baseRate.points"]}
+              error={errors["baseRate.points"]}
+              onChange={(value) => handleFieldChange("baseRate.points", value)}
+            />
+            <label className="inline-block cursor-pointer rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900">
+              Import curve CSV
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleCurveImport}
+                className="sr-only"
+              />
+            </label>
+          </>
+        )}
+        {baseRateKind === "simulated" && (
+          <p className="text-xs text-slate-500">
+            Each seed draws its own mean-reverting rate path alongside the
+            cash-flow events.
+          </p>
+        )}
+      </fieldset>
+      {!schedule && (
+        <fieldset className="space-y-2">
+          <legend className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Event Clustering
+          </legend>
+          {correlationFields.length > 0 && (
+            <>
+              <p className="text-xs text-slate-500">
+                Correlation of daily events between pools. Positive values make
+                calls (and distributions) land on the same days.
+              </p>
+              <FieldGroup
+                fields={correlationFields}
+                draft={values}
+                errors={errors}
+                onChange={handleFieldChange}
+              />
+              {errors["eventModel.correlations"] && (
+                <p className="text-right text-xs text-rose-600">
+                  {errors["eventModel.correlations"]}
+                </p>
+              )}
+            </>
+          )}
+          <SelectField
+            id="param-eventModel-regime-enabled"
+            label="Stress regime"
+            value={values["eventModel.regime.enabled"]}
+            options={[
+              { value: "false", label: "Off" },
+              { value: "true", label: "Calm / stressed" },
+            ]}
+            onChange={(value) =>
+              handleFieldChange("eventModel.regime.enabled", value)
+            }
+          />
+          {stressRegime && (
+            <FieldGroup
+              fields={REGIME_FIELDS}
+              draft={values}
+              errors={errors}
+              onChange={handleFieldChange}
+            />
+          )}
+        </fieldset>
+      )}
+      <ScheduleImport
+        schedule={schedule}
+        pools={pools}
+        calendar={settings}
+        onChange={onScheduleChange}
+      />
+    </section>
+  );
+}
+
+function PoolsForm({
+  pools,
+  defaultPools,
+  onChange,
+}: {
+  pools: PoolConfig[];
+  defaultPools: PoolConfig[];
+  onChange: (pools: PoolConfig[]) => void;
+}) {
+  const [drafts, setDrafts] = useState<Record<PoolKey, Draft>>({});
+  const [errors, setErrors] = useState<Record<PoolKey, ValidationErrors>>({});
+
+  const handleFieldChange = (pool: PoolConfig, key: string, value: string) => {
+    const nextDraft = {
+      ...poolToDraft(pool),
+      ...drafts[pool.key],
+      [key]: value,
+    };
+    const nextPool = draftToPool(nextDraft, pool);
+    const nextErrors = validatePool(nextPool, pools);
+    setDrafts((current) => ({ ...current, [pool.key]: nextDraft }));
+    setErrors((current) => ({ ...current, [pool.key]: nextErrors }));
+    if (!hasErrors(nextErrors)) {
+      onChange(
+        pools.map((entry) => (entry.key === pool.key ? nextPool : entry))
+      );
+    }
+  };
+
+  const handleAdd = () => {
+    onChange([...pools, createPool(pools)]);
+  };
+
+  const handleRemove = (key: PoolKey) => {
+    onChange(pools.filter((pool) => pool.key !== key));
+  };
+
+  const handleReset = () => {
+    setDrafts({});
+    setErrors({});
+    onChange(defaultPools);
+  };
+
+  return (
+    <section className="space-y-4 border-t border-slate-100 pt-4">
+      <PanelHeader
+        eyebrow="Pools"
+        title="Shared by all scenarios"
+        onReset={handleReset}
+      />
+      <p className="text-xs text-slate-500">
+        A return volatility above 0 draws the pool&apos;s expected return afresh
+        on each Monte Carlo and optimizer path. Draws share one market factor:
+        two pools correlate at the product of their market correlations, so each
+        pair cannot be set on its own.
+      </p>
+      <div className="space-y-2">
+        {pools.map((pool) => {
+          const draft = { ...poolToDraft(pool), ...drafts[pool.key] };
+          const poolErrors = errors[pool.key] ?? {};
+          const invalid = hasErrors(poolErrors);
+          return (
+            <details
+              key={pool.key}
+              className="rounded-xl border border-slate-100 bg-slate-50/60 px-3 py-2"
+            >
+              <summary className="flex cursor-pointer items-center gap-2 text-sm font-semibold text-slate-800">
+                <span
+                  className="h-3 w-3 rounded-full"
+                  style={{ backgroundColor: pool.color }}
+                />
+                <span className="flex-1 truncate">{pool.name}</span>
+                {invalid && (
+                  <span className="text-xs font-medium text-rose-600">
+                    Check fields
+                  </span>
+                )}
+              </summary>
+              <div className="mt-3 space-y-2">
+                <TextField
+                  id={`pool-${pool.key}-name`}
+                  label="Name"
+                  value={draft.name}
+                  error={poolErrors.name}
+                  onChange={(value) => handleFieldChange(pool, "name", value)}
+                />
+                <div>
+                  <label
+                    htmlFor={`pool-${pool.key}-color`}
+                    className="flex items-center justify-between gap-3 text-sm text-slate-700"
+                  >
+                    <span>Colour</span>
+                    <input
+                      id={`pool-${pool.key}-color`}
+                      type="color"
+                      value={draft.color}
+                      onChange={(event) =>
+                        handleFieldChange(pool, "color", event.target.value)
+                      }
+                      className="h-7 w-12 cursor-pointer rounded border border-slate-200 bg-white"
+                    />
+                  </label>
+                  {poolErrors.color && (
+                    <p className="mt-1 text-right text-xs text-rose-600">
+                      {poolErrors.color}
+                    </p>
+                  )}
+                </div>
+                <FieldGroup
+                  idPrefix={`pool-${pool.key}`}
+                  fields={POOL_FIELDS}
+                  draft={draft}
+                  errors={poolErrors}
+                  onChange={(key, value) => handleFieldChange(pool, key, value)}
+                />
+                <SelectField
+                  id={`pool-${pool.key}-sizeDistribution`}
+                  label="Event sizes"
+                  value={draft.sizeDistribution}
+                  options={SIZE_DISTRIBUTION_OPTIONS}
+                  onChange={(value) =>
+                    handleFieldChange(pool, "sizeDistribution", value)
+                  }
+                />
+                <div className="flex justify-end pt-1">
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(pool.key)}
+                    disabled={pools.length <= 1}
+                    className="rounded-full px-3 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    Remove pool
+                  </button>
+                </div>
+              </div>
+            </details>
+          );
+        })}
+      </div>
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="w-full rounded-xl border border-dashed border-slate-300 px-3 py-2 text-xs font-semibold text-slate-600 transition hover:border-slate-400 hover:text-slate-900"
+      >
+        Add pool
+      </button>
+    </section>
+  );
+}
+
+function PanelHeader({
+  eyebrow,
+  title,
+  onReset,
+}: {
+  eyebrow: string;
+  title: string;
+  onReset: () => void;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-3">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {eyebrow}
+        </p>
+        <p className="text-sm font-semibold text-slate-900">{title}</p>
+      </div>
+      <button
+        type="button"
+        onClick={onReset}
+        className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
+
+function FieldGroup({
+  title,
+  idPrefix = "param",
+  fields,
+  draft,
+  errors,
+  onChange,
+}: {
+  title?: string;
+  idPrefix?: string;
+  fields: FieldSpec[];
+  draft: Draft;
+  errors: ValidationErrors;
+  onChange: (key: string, value: string) => void;
+}) {
+  return (
+    <fieldset className="space-y-2">
+      {title && (
+        <legend className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {title}
+        </legend>
+      )}
+      {fields.map((field) => (
+        <NumberField
+          key={field.key}
+          id={`${idPrefix}-${field.key.replace(/\./g, "-")}`}
+          field={field}
+          value={draft[field.key] ?? ""}
+          error={errors[field.key]}
+          onChange={(value) => onChange(field.key, value)}
+        />
+      ))}
+    </fieldset>
+  );
+}
+
+function SelectGroup({
+  title,
+  fields,
+  draft,
+  onChange,
+}: {
+  title: string;
+  fields: SelectSpec[];
+  draft: Draft;
+  onChange: (key: string, value: string) => void;
+}) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {title}
+      </legend>
+      {fields.map((field) => (
+        <SelectField
+          key={field.key}
+          id={`param-${field.key.replace(/\./g, "-")}`}
+          label={field.label}
+          value={draft[field.key] ?? ""}
+          options={field.options}
+          onChange={(value) => onChange(field.key, value)}
+        />
+      ))}
+    </fieldset>
+  );
+}
+
+function NumberField({
+  id,
+  field,
+  value,
+  error,
+  onChange,
+}: {
+  id: string;
+  field: FieldSpec;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="flex items-center justify-between gap-3 text-sm text-slate-700"
+      >
+        <span>{field.label}</span>
+        <span className="flex items-center gap-1">
+          <input
+            id={id}
+            inputMode="decimal"
+            value={value}
+            placeholder={field.placeholder}
+            onChange={(event) => onChange(event.target.value)}
+            aria-invalid={Boolean(error)}
+            className={`w-24 rounded-lg border bg-white px-2 py-1 text-right font-mono text-sm text-slate-900 outline-none focus:border-slate-400 ${
+              error ? "border-rose-300" : "border-slate-200"
+            }`}
+          />
+          <span className="w-8 text-xs text-slate-500">{field.unit}</span>
+        </span>
+      </label>
+      {error && (
+        <p className="mt-1 text-right text-xs text-rose-600">{error}</p>
+      )}
+    </div>
+  );
+}
+
+function TextField({
+  id,
+  type = "text",
+  label,
+  value,
+  placeholder,
+  error,
+  onChange,
+}: {
+  id: string;
+  type?: "text" | "date";
+  label: string;
+  value: string;
+  placeholder?: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="flex items-center justify-between gap-3 text-sm text-slate-700"
+      >
+        <span>{label}</span>
+        <input
+          id={id}
+          type={type}
+          value={value}
+          placeholder={placeholder}
+          onChange={(event) => onChange(event.target.value)}
+          aria-invalid={Boolean(error)}
+          className={`w-40 rounded-lg border bg-white px-2 py-1 text-sm text-slate-900 outline-none focus:border-slate-400 ${
+            error ? "border-rose-300" : "border-slate-200"
+          }`}
+        />
+      </label>
+      {error && (
+        <p className="mt-1 text-right text-xs text-rose-600">{error}</p>
+      )}
+    </div>
+  );
+}
+
+function SelectField({
+  id,
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label
+      htmlFor={id}
+      className="flex items-center justify-between gap-3 text-sm text-slate-700"
+    >
+      <span>{label}</span>
+      <select
+        id={id}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="w-40 rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm text-slate-900 outline-none focus:border-slate-400"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function startingCashKey(key: PoolKey) {
+  return `startingCash.${key}`;
+}
+
+function sublimitKey(key: PoolKey) {
+  return `facility.sublimits.${key}`;
+}
+
+function scenarioToDraft(scenario: ScenarioConfig, pools: PoolConfig[]): Draft {
+  const { params } = scenario;
+  const { facility } = params;
+  const draft: Draft = {
+    name: scenario.name,
+    cashPool: String(params.cashPool),
+    cashPoolFloor: String(params.cashPoolFloor),
+    borrowRate: String(params.borrowRate),
+    lineRate: String(params.lineRate),
+    idleRate: String(params.idleRate),
+    "facility.commitment": String(facility.commitment),
+    "facility.undrawnFee": String(facility.undrawnFee),
+    "facility.upfrontFee": String(facility.upfrontFee),
+    "facility.tenor": String(facility.tenor),
+    "dayCounts.borrow": params.dayCounts.borrow,
+    "dayCounts.line": params.dayCounts.line,
+    "dayCounts.idle": params.dayCounts.idle,
+    "settlement.borrow.frequency": params.settlement.borrow.frequency,
+    "settlement.borrow.capitalize": String(params.settlement.borrow.capitalize),
+    "settlement.idle.frequency": params.settlement.idle.frequency,
+    "settlement.idle.capitalize": String(params.settlement.idle.capitalize),
+    "rateBasis.borrow.floating": String(params.rateBasis.borrow.floating),
+    "rateBasis.borrow.spread": String(params.rateBasis.borrow.spread),
+    "rateBasis.line.floating": String(params.rateBasis.line.floating),
+    "rateBasis.line.spread": String(params.rateBasis.line.spread),
+    "rateBasis.idle.floating": String(params.rateBasis.idle.floating),
+    "rateBasis.idle.spread": String(params.rateBasis.idle.spread),
+    "alerts.borrowLimit": String(params.alerts.borrowLimit),
+    "alerts.repaymentDays": String(params.alerts.repaymentDays),
+    "alerts.interestGraceDays": String(params.alerts.interestGraceDays),
+  };
+  for (const pool of pools) {
+    draft[startingCashKey(pool.key)] = String(
+      params.startingCash[pool.key] ?? 0
+    );
+    const sublimit = facility.sublimits[pool.key];
+    draft[sublimitKey(pool.key)] =
+      sublimit === undefined ? "" : String(sublimit);
+  }
+  return draft;
+}
+
+function draftToScenario(
+  draft: Draft,
+  base: ScenarioConfig,
+  pools: PoolConfig[]
+): ScenarioConfig {
+  const startingCash: Record<PoolKey, number> = {};
+  const sublimits: Record<PoolKey, number> = {};
+  for (const pool of pools) {
+    startingCash[pool.key] = parseField(draft[startingCashKey(pool.key)]);
+    // A blank sublimit means the pool is limited only by the commitment.
+    if (draft[sublimitKey(pool.key)]?.trim()) {
+      sublimits[pool.key] = parseField(draft[sublimitKey(pool.key)]);
+    }
+  }
+  return {
+    ...base,
+    name: draft.name,
+    params: {
+      ...base.params,
+      startingCash,
+      cashPool: parseField(draft.cashPool),
+      cashPoolFloor: parseField(draft.cashPoolFloor),
+      borrowRate: parseField(draft.borrowRate),
+      lineRate: parseField(draft.lineRate),
+      facility: {
+        commitment: parseField(draft["facility.commitment"]),
+        undrawnFee: parseField(draft["facility.undrawnFee"]),
+        upfrontFee: parseField(draft["facility.upfrontFee"]),
+        tenor: parseField(draft["facility.tenor"]),
+        sublimits,
+      },
+      idleRate: parseField(draft.idleRate),
+      dayCounts: {
+        borrow: draft["dayCounts.borrow"] as DayCount,
+        line: draft["dayCounts.line"] as DayCount,
+        idle: draft["dayCounts.idle"] as DayCount,
+      },
+      settlement: {
+        borrow: {
+          frequency: draft[
+            "settlement.borrow.frequency"
+          ] as SettlementFrequency,
+          capitalize: draft["settlement.borrow.capitalize"] === "true",
+        },
+        idle: {
+          frequency: draft["settlement.idle.frequency"] as SettlementFrequency,
+          capitalize: draft["settlement.idle.capitalize"] === "true",
+        },
+      },
+      rateBasis: {
+        borrow: draftToRateBasis(draft, "borrow"),
+        line: draftToRateBasis(draft, "line"),
+        idle: draftToRateBasis(draft, "idle"),
+      },
+      alerts: {
+        borrowLimit: parseField(draft["alerts.borrowLimit"]),
+        repaymentDays: parseField(draft["alerts.repaymentDays"]),
+        interestGraceDays: parseField(draft["alerts.interestGraceDays"]),
+      },
+    },
+  };
+}
+
+function pathSettingsToDraft(
+  settings: PathSettings,
+  pools: PoolConfig[]
+): Draft {
+  const { correlations, regime } = settings.eventModel;
+  const draft: Draft = {
+    days: String(settings.days),
+    startDate: settings.startDate,
+    calendar: settings.calendar,
+    holidays: settings.holidays.join(", "),
+    "baseRate.name": settings.baseRate.name,
+    "baseRate.kind": settings.baseRate.kind,
+    "baseRate.rate": String(settings.baseRate.rate),
+    "baseRate.points": formatRatePoints(settings.baseRate.points),
+    "baseRate.longRunRate": String(settings.baseRate.longRunRate),
+    "baseRate.meanReversion": String(settings.baseRate.meanReversion),
+    "baseRate.volatility": String(settings.baseRate.volatility),
+    "eventModel.regime.enabled": String(regime.enabled),
+    "eventModel.regime.stressProbability": String(regime.stressProbability),
+    "eventModel.regime.recoveryProbability": String(regime.recoveryProbability),
+    "eventModel.regime.callMultiplier": String(regime.callMultiplier),
+    "eventModel.regime.distributionMultiplier": String(
+      regime.distributionMultiplier
+    ),
+  };
+  for (const [a, b] of poolPairs(pools)) {
+    draft[correlationDraftKey(a.key, b.key)] = String(
+      correlations[correlationKey(a.key, b.key)] ?? 0
+    );
+  }
+  return draft;
+}
+
+function draftToPathSettings(draft: Draft, pools: PoolConfig[]): PathSettings {
+  // Uncorrelated pairs are left out, keeping saved sets small.
+  const correlations: Record<string, number> = {};
+  for (const [a, b] of poolPairs(pools)) {
+    const value = parseField(draft[correlationDraftKey(a.key, b.key)]);
+    if (value !== 0) correlations[correlationKey(a.key, b.key)] = value;
+  }
+  return {
+    days: parseField(draft.days),
+    startDate: draft.startDate,
+    calendar: draft.calendar as BusinessCalendar,
+    holidays: draft.holidays
+      .split(",")
+      .map((date) => date.trim())
+      .filter((date) => date !== ""),
+    baseRate: {
+      name: draft["baseRate.name"],
+      kind: draft["baseRate.kind"] as BaseRateKind,
+      rate: parseField(draft["baseRate.rate"]),
+      points: parseRatePoints(draft["baseRate.points"]),
+      longRunRate: parseField(draft["baseRate.longRunRate"]),
+      meanReversion: parseField(draft["baseRate.meanReversion"]),
+      volatility: parseField(draft["baseRate.volatility"]),
+    },
+    eventModel: {
+      correlations,
+      regime: {
+        enabled: draft["eventModel.regime.enabled"] === "true",
+        stressProbability: parseField(
+          draft["eventModel.regime.stressProbability"]
+        ),
+        recoveryProbability: parseField(
+          draft["eventModel.regime.recoveryProbability"]
+        ),
+        callMultiplier: parseField(draft["eventModel.regime.callMultiplier"]),
+        distributionMultiplier: parseField(
+          draft["eventModel.regime.distributionMultiplier"]
+        ),
+      },
+    },
+  };
+}
+
+/** Every unordered pair of pools, in pool order. */
+function poolPairs(pools: PoolConfig[]) {
+  return pools.flatMap((a, index) =>
+    pools.slice(index + 1).map((b) => [a, b] as const)
+  );
+}
+
+function correlationDraftKey(a: PoolKey, b: PoolKey) {
+  return `eventModel.correlations.${correlationKey(a, b)}`;
+}
+
+function draftToRateBasis(draft: Draft, key: string) {
+  return {
+    floating: draft[`rateBasis.${key}.floating`] === "true",
+    spread: parseField(draft[`rateBasis.${key}.spread`]),
+  };
+}
+
+function formatRatePoints(points: RatePoint[]) {
+  return points.map((point) => `${point.date} ${point.rate}`).join(", ");
+}
+
+/** Reads `YYYY-MM-DD rate` pairs; malformed pairs fail validation. */
+function parseRatePoints(value: string): RatePoint[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      const [date = "", rate] = entry.split(/\s+/);
+      return { date, rate: parseField(rate) };
+    });
+}
+
+function poolToDraft(pool: PoolConfig): Draft {
+  return {
+    name: pool.name,
+    color: pool.color,
+    expectedReturn: String(pool.expectedReturn),
+    returnVolatility: String(pool.returnVolatility),
+    returnCorrelation: String(pool.returnCorrelation),
+    callProbability: String(pool.events.callProbability),
+    distributionProbability: String(pool.events.distributionProbability),
+    minSize: String(pool.events.minSize),
+    maxSize: String(pool.events.maxSize),
+    sizeDistribution: pool.events.sizeDistribution,
+  };
+}
+
+function draftToPool(draft: Draft, base: PoolConfig): PoolConfig {
+  return {
+    ...base,
+    name: draft.name,
+    color: draft.color,
+    expectedReturn: parseField(draft.expectedReturn),
+    returnVolatility: parseField(draft.returnVolatility),
+    returnCorrelation: parseField(draft.returnCorrelation),
+    events: {
+      callProbability: parseField(draft.callProbability),
+      distributionProbability: parseField(draft.distributionProbability),
+      minSize: parseField(draft.minSize),
+      maxSize: parseField(draft.maxSize),
+      sizeDistribution: draft.sizeDistribution as SizeDistribution,
+    },
+  };
+}
+
+function parseField(value: string | undefined) {
+  if (value === undefined || value.trim() === "") return Number.NaN;
+  return Number(value);
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { formatDate, formatFullDollars } from "@/lib/format";
+import {
+  RECONCILIATION_TOLERANCE,
+  type CashReconciliation,
+  type PeriodRecord,
+  type RollupPeriod,
+} from "@/lib/simulation";
+
+const COLUMNS: { label: string; value: keyof CashReconciliation }[] = [
+  { label: "Opening", value: "opening" },
+  { label: "Interest Credited", value: "interestCredited" },
+  { label: "External Flows", value: "externalFlows" },
+  { label: "Line Drawn", value: "lineDrawn" },
+  { label: "Line Repaid", value: "lineRepaid" },
+  { label: "Line Interest Paid", value: "lineInterestPaid" },
+  { label: "Closing", value: "closing" },
+  { label: "Residual", value: "residual" },
+];
+
+/**
+ * Debug view of the engine's cash walk: for each period, the cash held
+ * across the pools and the cash pool, the flows that should explain its
+ * change, and whatever they leave unexplained.
+ */
+export function ReconciliationPanel({
+  records,
+  period,
+}: {
+  records: PeriodRecord[];
+  period: RollupPeriod;
+}) {
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">Cash Walk</h2>
+      <p className="text-sm text-slate-500">
+        Closing cash should equal opening cash plus idle interest credited,
+        external flows and line draws, less line repayments and line interest.
+        Draws, repayments and interest between the pools and the cash pool net
+        to zero. Rows whose residual exceeds a dollar are highlighted.
+      </p>
+      <div className="mt-4 max-h-[28rem] overflow-auto rounded-2xl border border-slate-100">
+        <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+          <thead className="sticky top-0 bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+            <tr>
+              <th className="px-3 py-2 text-left">
+                {period === "daily" ? "Date" : "Period"}
+              </th>
+              {COLUMNS.map((column) => (
+                <th key={column.value} className="px-3 py-2 text-right">
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {records.map((record) => {
+              const broken =
+                Math.abs(record.reconciliation.residual) >
+                RECONCILIATION_TOLERANCE;
+              return (
+                <tr
+                  key={record.date}
+                  className={broken ? "bg-rose-50 text-rose-700" : ""}
+                >
+                  <td className="px-3 py-2 text-slate-700">
+                    {period === "daily"
+                      ? formatDate(record.date)
+                      : record.period}
+                  </td>
+                  {COLUMNS.map((column) => (
+                    <td
+                      key={column.value}
+                      className={`px-3 py-2 text-right ${
+                        column.value === "residual" ? "font-semibold" : ""
+                      }`}
+                    >
+                      {column.value === "residual" && !broken
+                        ? "—"
+                        : formatFullDollars(
+                            record.reconciliation[column.value]
+                          )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
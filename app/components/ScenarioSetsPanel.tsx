@@ -0,0 +1,321 @@
+"use client";
+
+import { useState, type ChangeEvent, type FormEvent } from "react";
+import { downloadFile, toFileSlug } from "@/lib/download";
+import {
+  deleteSavedSet,
+  listSavedSets,
+  openSavedSet,
+  renameSavedSet,
+  saveScenarioSet,
+  type SavedScenarioSet,
+} from "@/lib/scenarioStorage";
+import {
+  parseScenarioSet,
+  serializeScenarioSet,
+  type CashFlowSchedule,
+  type PathSettings,
+  type PoolConfig,
+  type ScenarioConfig,
+  type ScenarioSet,
+} from "@/lib/simulation";
+
+type Notice = { tone: "info" | "error"; message: string } | null;
+
+export function ScenarioSetsPanel({
+  scenarios,
+  pools,
+  pathSettings,
+  seed,
+  schedule,
+  onLoad,
+}: {
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  seed: number | null;
+  schedule: CashFlowSchedule | null;
+  onLoad: (set: ScenarioSet) => void;
+}) {
+  const [savedSets, setSavedSets] = useState(listSavedSets);
+  const [name, setName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const [notice, setNotice] = useState<Notice>(null);
+
+  const currentSet = (label: string): ScenarioSet => ({
+    name: label,
+    scenarios,
+    pools,
+    pathSettings,
+    seed,
+    schedule,
+  });
+
+  const runStorage = (action: () => SavedScenarioSet[], message: string) => {
+    try {
+      setSavedSets(action());
+      setNotice({ tone: "info", message });
+    } catch {
+      setNotice({
+        tone: "error",
+        message: "This browser could not write to local storage.",
+      });
+    }
+  };
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (trimmed === "") return;
+    runStorage(
+      () => saveScenarioSet(currentSet(trimmed)),
+      `Saved “${trimmed}”.`
+    );
+    setName("");
+  };
+
+  const handleExport = (set: ScenarioSet) => {
+    downloadFile(
+      `${toFileSlug(set.name)}.json`,
+      serializeScenarioSet(set),
+      "application/json"
+    );
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const result = parseScenarioSet(await file.text());
+    if (!result.ok) {
+      setNotice({
+        tone: "error",
+        message: `Could not import ${file.name}: ${result.error}`,
+      });
+      return;
+    }
+    onLoad(result.set);
+    setNotice({ tone: "info", message: `Imported “${result.set.name}”.` });
+  };
+
+  const handleOpen = (entry: SavedScenarioSet) => {
+    const result = openSavedSet(entry);
+    if (!result.ok) {
+      setNotice({
+        tone: "error",
+        message: `Could not load “${entry.name}”: ${result.error}`,
+      });
+      return;
+    }
+    onLoad({ ...result.set, name: entry.name });
+  };
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!renaming || renaming.name.trim() === "") return;
+    const trimmed = renaming.name.trim();
+    runStorage(
+      () => renameSavedSet(renaming.id, trimmed),
+      `Renamed to “${trimmed}”.`
+    );
+    setRenaming(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Current Set</h2>
+        <p className="text-sm text-slate-500">
+          Saves {scenarios.length} scenario
+          {scenarios.length === 1 ? "" : "s"}, {pools.length} pool
+          {pools.length === 1 ? "" : "s"}
+          {schedule
+            ? ` and the “${schedule.name}” cash-flow schedule`
+            : `, the ${pathSettings.days}-day horizon and seed ${
+                seed ?? "—"
+              }`}{" "}
+          so the analysis can be reproduced exactly.
+        </p>
+        <div className="mt-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <form onSubmit={handleSave} className="flex items-center gap-2">
+            <input
+              aria-label="Set name"
+              placeholder="Set name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              className="w-56 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:border-slate-400"
+            />
+            <button
+              type="submit"
+              disabled={name.trim() === ""}
+              className="rounded-xl bg-slate-900 px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Save
+            </button>
+          </form>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                handleExport(currentSet(name.trim() || "Scenarios"))
+              }
+              className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400"
+            >
+              Export JSON
+            </button>
+            <label className="cursor-pointer rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400">
+              Import JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                className="sr-only"
+              />
+            </label>
+          </div>
+        </div>
+        {notice && (
+          <p
+            className={`mt-3 text-sm ${
+              notice.tone === "error" ? "text-rose-600" : "text-slate-500"
+            }`}
+          >
+            {notice.message}
+          </p>
+        )}
+      </section>
+
+      {savedSets.length > 0 ? (
+        <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Saved Sets</h2>
+          <p className="text-sm text-slate-500">
+            Stored in this browser. Export a set to share it with colleagues.
+          </p>
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-right">Scenarios</th>
+                  <th className="px-3 py-2 text-right">Seed</th>
+                  <th className="px-3 py-2 text-right">Saved</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {savedSets.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-amber-50">
+                    <td className="px-3 py-2 font-semibold text-slate-900">
+                      {renaming?.id === entry.id ? (
+                        <form
+                          onSubmit={handleRename}
+                          className="flex items-center gap-2"
+                        >
+                          <input
+                            aria-label="New name"
+                            value={renaming.name}
+                            autoFocus
+                            onChange={(event) =>
+                              setRenaming({
+                                id: entry.id,
+                                name: event.target.value,
+                              })
+                            }
+                            className="w-48 rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm font-normal text-slate-900 outline-none focus:border-slate-400"
+                          />
+                          <button
+                            type="submit"
+                            className="rounded-full px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 hover:text-slate-900"
+                          >
+                            Done
+                          </button>
+                        </form>
+                      ) : (
+                        entry.name
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {entry.file.scenarios.length}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {entry.file.seed ?? "—"}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-500">
+                      {new Date(entry.savedAt).toLocaleString("en-US")}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <div className="flex justify-end gap-1">
+                        <RowButton onClick={() => handleOpen(entry)}>
+                          Load
+                        </RowButton>
+                        <RowButton
+                          onClick={() =>
+                            setRenaming({ id: entry.id, name: entry.name })
+                          }
+                        >
+                          Rename
+                        </RowButton>
+                        <RowButton
+                          onClick={() =>
+                            handleExport({ ...entry.file, name: entry.name })
+                          }
+                        >
+                          Export
+                        </RowButton>
+                        <RowButton
+                          danger
+                          onClick={() =>
+                            runStorage(
+                              () => deleteSavedSet(entry.id),
+                              `Deleted “${entry.name}”.`
+                            )
+                          }
+                        >
+                          Delete
+                        </RowButton>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : (
+        <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
+          <p className="text-lg font-medium">No saved sets yet</p>
+          <p className="mt-2 text-sm">
+            Name the current scenarios and save them, or import a set exported
+            by a colleague.
+          </p>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function RowButton({
+  onClick,
+  danger = false,
+  children,
+}: {
+  onClick: () => void;
+  danger?: boolean;
+  children: string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+        danger
+          ? "text-rose-600 hover:bg-rose-50"
+          : "text-slate-600 hover:bg-slate-100 hover:text-slate-900"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
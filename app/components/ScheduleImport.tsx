@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import { formatMillions } from "@/lib/format";
+import {
+  parseScheduleCsv,
+  parseScheduleJson,
+  scheduleDays,
+  type CalendarSettings,
+  type CashFlowSchedule,
+  type PoolConfig,
+  type ScheduleIssue,
+} from "@/lib/simulation";
+
+const MAX_LISTED_ISSUES = 12;
+
+/**
+ * Imports a dated cash-flow schedule to replay in place of random events,
+ * listing every rejected row when the file does not validate.
+ */
+export function ScheduleImport({
+  schedule,
+  pools,
+  calendar,
+  onChange,
+}: {
+  schedule: CashFlowSchedule | null;
+  pools: PoolConfig[];
+  calendar: CalendarSettings;
+  onChange: (schedule: CashFlowSchedule | null) => void;
+}) {
+  const [report, setReport] = useState<{
+    file: string;
+    issues: ScheduleIssue[];
+  } | null>(null);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const text = await file.text();
+    const name = file.name.replace(/\.(csv|json)$/i, "");
+    const result = /\.json$/i.test(file.name)
+      ? parseScheduleJson(text, pools, name, calendar)
+      : parseScheduleCsv(text, pools, name, calendar);
+    if (!result.ok) {
+      setReport({ file: file.name, issues: result.issues });
+      return;
+    }
+    setReport(null);
+    onChange(result.schedule);
+  };
+
+  const calls = schedule?.flows
+    .filter((flow) => flow.amount < 0)
+    .reduce((sum, flow) => sum - flow.amount, 0);
+  const distributions = schedule?.flows
+    .filter((flow) => flow.amount > 0)
+    .reduce((sum, flow) => sum + flow.amount, 0);
+
+  return (
+    <div className="space-y-2 text-sm text-slate-700">
+      {schedule ? (
+        <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+          <p className="font-semibold text-slate-900">{schedule.name}</p>
+          <p className="text-xs text-slate-500">
+            {schedule.startDate} to {schedule.endDate} •{" "}
+            {scheduleDays(schedule)} days • {schedule.flows.length} flows
+          </p>
+          <p className="text-xs text-slate-500">
+            Calls {formatMillions(calls ?? 0, 1)} • distributions{" "}
+            {formatMillions(distributions ?? 0, 1)}
+          </p>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="mt-2 rounded-full px-3 py-1 text-xs font-semibold text-slate-600 transition hover:bg-white hover:text-slate-900"
+          >
+            Use random events
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          Replay a CSV or JSON ledger of dated flows (date, pool, amount in $M;
+          calls negative) instead of random events. Flows must fall on business
+          days.
+        </p>
+      )}
+      <label className="inline-block cursor-pointer rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900">
+        Import schedule
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleImport}
+          className="sr-only"
+        />
+      </label>
+      {report && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">
+          <p className="font-semibold">
+            {report.file} was not imported ({report.issues.length} issue
+            {report.issues.length === 1 ? "" : "s"}):
+          </p>
+          <ul className="mt-1 space-y-0.5">
+            {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+              <li key={`${issue.row}-${index}`}>
+                {issue.row > 0 ? `Row ${issue.row}: ` : ""}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+          {report.issues.length > MAX_LISTED_ISSUES && (
+            <p className="mt-1">
+              …and {report.issues.length - MAX_LISTED_ISSUES} more.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatFullDollars, formatMillions } from "@/lib/format";
+import {
+  runStressTests,
+  type CalendarSettings,
+  type DayEvent,
+  type PoolConfig,
+  type ScenarioConfig,
+  type StressMetrics,
+} from "@/lib/simulation";
+
+/**
+ * Runs every scenario through the predefined shocks overlaid on the current
+ * event path and compares each with its unstressed run.
+ */
+export function StressTestPanel({
+  scenarios,
+  pools,
+  calendar,
+  dayEvents,
+  baseRates,
+}: {
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  calendar: CalendarSettings;
+  dayEvents: DayEvent[];
+  baseRates: number[];
+}) {
+  const report = useMemo(
+    () =>
+      runStressTests({
+        scenarios: scenarios.map((scenario) => ({
+          id: scenario.id,
+          params: scenario.params,
+        })),
+        pools,
+        calendar,
+        dayEvents,
+        baseRates,
+      }),
+    [scenarios, pools, calendar, dayEvents, baseRates]
+  );
+
+  const scenarioName = (id: string) =>
+    scenarios.find((scenario) => scenario.id === id)?.name ?? id;
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Base Case</h2>
+        <p className="text-sm text-slate-500">
+          The current event path without shocks. Every stress test below is
+          overlaid on it, starting on day 1.
+        </p>
+        <StressTable
+          rows={report.base.map((entry) => ({
+            ...entry,
+            name: scenarioName(entry.id),
+          }))}
+        />
+      </section>
+      {report.tests.map((test) => (
+        <section
+          key={test.id}
+          className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm"
+        >
+          <h2 className="text-lg font-semibold text-slate-900">{test.name}</h2>
+          <p className="text-sm text-slate-500">{test.description}</p>
+          {!test.applied && (
+            <p className="mt-1 text-xs font-semibold text-amber-600">
+              Not applied in full: a shock starts after the last day of the run.
+            </p>
+          )}
+          <StressTable
+            rows={test.scenarios.map((entry) => ({
+              ...entry,
+              name: scenarioName(entry.id),
+            }))}
+          />
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function StressTable({
+  rows,
+}: {
+  rows: (StressMetrics & {
+    id: string;
+    name: string;
+    incrementalDrag?: number;
+  })[];
+}) {
+  const showIncrement = rows.some((row) => row.incrementalDrag !== undefined);
+  return (
+    <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-100">
+      <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
+        <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
+          <tr>
+            <th className="px-3 py-2 text-left">Scenario</th>
+            <th className="px-3 py-2 text-right">Peak Borrow</th>
+            <th className="px-3 py-2 text-right">Min Cash Pool</th>
+            <th className="px-3 py-2 text-right">Shortfall Days</th>
+            <th className="px-3 py-2 text-right">Total Drag</th>
+            {showIncrement && <th className="px-3 py-2 text-right">vs Base</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 bg-white">
+          {rows.map((row) => (
+            <tr key={row.id} className="hover:bg-amber-50">
+              <td className="px-3 py-2 font-semibold text-slate-900">
+                {row.name}
+              </td>
+              <td className="px-3 py-2 text-right">
+                {formatMillions(row.peakBorrow, 1)}
+              </td>
+              <td
+                className={`px-3 py-2 text-right ${
+                  row.minCashPool !== null && row.minCashPool < 0
+                    ? "font-semibold text-rose-600"
+                    : ""
+                }`}
+              >
+                {row.minCashPool === null
+                  ? "—"
+                  : formatMillions(row.minCashPool, 1)}
+              </td>
+              <td
+                className={`px-3 py-2 text-right ${
+                  row.shortfallDays > 0 ? "font-semibold text-rose-600" : ""
+                }`}
+              >
+                {row.shortfallDays}
+              </td>
+              <td className="px-3 py-2 text-right">
+                {formatFullDollars(row.drag)}
+              </td>
+              {showIncrement && (
+                <td className="px-3 py-2 text-right font-semibold text-slate-900">
+                  {row.incrementalDrag === undefined
+                    ? "—"
+                    : `${
+                        row.incrementalDrag >= 0 ? "+" : ""
+                      }${formatFullDollars(row.incrementalDrag)}`}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
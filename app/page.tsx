@@ -1,201 +1,356 @@
 "use client";
 
-import { Fragment, useEffect, useState } from "react";
+import { Fragment, useEffect, useMemo, useState, type FormEvent } from "react";
+import { AlertsPanel, describeAlert } from "@/app/components/AlertsPanel";
+import { AttributionPanel } from "@/app/components/AttributionPanel";
+import { ChartsDashboard } from "@/app/components/ChartsDashboard";
+import { JournalPanel } from "@/app/components/JournalPanel";
+import { MonteCarloPanel } from "@/app/components/MonteCarloPanel";
+import { OptimizerPanel } from "@/app/components/OptimizerPanel";
+import { ParameterPanel } from "@/app/components/ParameterPanel";
+import { ReconciliationPanel } from "@/app/components/ReconciliationPanel";
+import { ScenarioSetsPanel } from "@/app/components/ScenarioSetsPanel";
+import { StressTestPanel } from "@/app/components/StressTestPanel";
+import { downloadFile, toFileSlug } from "@/lib/download";
+import {
+  dailyDragTable,
+  dailyRecordsTable,
+  journalTable,
+  scenarioSummaryTable,
+  toCsv,
+  toWorkbook,
+} from "@/lib/export";
+import {
+  formatDate,
+  formatFullDollars,
+  formatMillions,
+  formatPercent,
+  formatThousands,
+  withAlpha,
+} from "@/lib/format";
+import {
+  ALERT_LABELS,
+  CASH_POOL_KEY,
+  DEFAULT_PATH_SETTINGS,
+  DEFAULT_POOLS,
+  DEFAULT_SCENARIOS,
+  annualizedDrag,
+  baseRatePath,
+  cloneScenario,
+  conservationBreaks,
+  createRandom,
+  createRateRandom,
+  createScenario,
+  generateDayEvents,
+  holdsReserve,
+  parseSeed,
+  randomSeed,
+  rollUpRecords,
+  runSimulation,
+  scheduleDays,
+  scheduleToDayEvents,
+  totalDrag,
+  usesLine,
+  type CashFlowSchedule,
+  type DailyRecord,
+  type FundingMode,
+  type PeriodRecord,
+  type PoolConfig,
+  type PoolKey,
+  type RateBasis,
+  type RollupPeriod,
+  type ScenarioConfig,
+  type ScenarioId,
+  type ScenarioSet,
+  type SimulationParams,
+  type SimulationResult,
+} from "@/lib/simulation";
 
-type PoolKey = "PE" | "PC" | "PRE";
-type ScenarioId = "internal" | "prefunded" | "loc";
 type ViewMode = "cash" | "drag";
-
-interface SimulationParams {
-  peCash: number;
-  pcCash: number;
-  preCash: number;
-  cashPool: number;
-  borrowRate: number;
-  idleRate: number;
-  days: number;
-}
-
-interface PoolState {
-  key: PoolKey;
-  name: string;
-  cash: number;
-  borrow: number;
-  interestOwed: number;
-  interestPaid: number;
-  interestEarned: number;
-  cashDrag: number;
-  borrowDrag: number;
-}
-
-interface CashPoolState {
-  cash: number;
-  interestEarned: number;
-  interestReceivable: number;
-  activity: number;
-  cashDrag: number;
-  borrowDrag: number;
-}
-
-interface DailyRecord {
-  day: number;
-  pools: PoolState[];
-  cashPool: CashPoolState;
-  activity: Record<PoolKey | "CP", number>;
-  totals: {
-    borrowed: number;
-    repaid: number;
-    interestByPool: Record<PoolKey | "CP", number>;
-    drag: number;
-  };
-}
-
-interface PoolSummary {
-  key: PoolKey;
-  name: string;
-  interestPaid: number;
-  endingCash: number;
-  endingBorrow: number;
-}
-
-interface SimulationSummary {
-  privatePools: PoolSummary[];
-  cashPool: {
-    interestEarned: number;
-    endingCash: number;
-  };
-  totals: {
-    borrowed: number;
-    repaid: number;
-    days: number;
-  };
-}
-
-interface SimulationResult {
-  records: DailyRecord[];
-  summary: SimulationSummary;
-}
-
-type DayEvent = Record<PoolKey, number>;
-
-const POOL_CONFIGS: { key: PoolKey; name: string; color: string }[] = [
-  { key: "PE", name: "Private Equity", color: "#2563eb" },
-  { key: "PC", name: "Private Credit", color: "#0ea5e9" },
-  { key: "PRE", name: "Private Real Estate", color: "#f97316" },
-];
-
-const POOL_HEADER_LABELS: Record<PoolKey, string> = {
-  PE: "Private Equity Pool",
-  PC: "Private Credit Pool",
-  PRE: "Private Real Estate Pool",
-};
+type PageView =
+  | "scenario"
+  | "summary"
+  | "monteCarlo"
+  | "optimizer"
+  | "stress"
+  | "sets";
 
 const POOL_CASH_HEADERS = [
   "Cash",
   "Activity",
   "Borrow",
-  "Int Owed",
+  "Int Accr",
+  "Int Due",
   "Int Earn",
 ] as const;
 
 const POOL_DRAG_HEADERS = ["Cash Drag", "Borrow Drag", "Total Drag"] as const;
 
-const EXPECTED_RETURNS: Record<PoolKey, number> = {
-  PE: 8.0,
-  PC: 8.2,
-  PRE: 7.2,
-};
-
-const AVERAGE_EXPECTED_RETURN =
-  (EXPECTED_RETURNS.PE + EXPECTED_RETURNS.PC + EXPECTED_RETURNS.PRE) / 3;
-
-const DEFAULT_PARAMS: SimulationParams = {
-  peCash: 0,
-  pcCash: 0,
-  preCash: 0,
-  cashPool: 50,
-  borrowRate: 4.0,
-  idleRate: 4.0,
-  days: 30,
-};
-
-const PREFUNDED_PARAMS: SimulationParams = {
-  ...DEFAULT_PARAMS,
-  peCash: 30,
-  pcCash: 30,
-  preCash: 30,
-  cashPool: 0,
-};
+const LINE_COLOR = "#7c3aed";
 
-const LOC_PARAMS: SimulationParams = {
-  ...DEFAULT_PARAMS,
-  borrowRate: DEFAULT_PARAMS.borrowRate + 0.4,
-  idleRate: DEFAULT_PARAMS.idleRate,
-  cashPool: 0,
-};
+const PERIOD_OPTIONS: { label: string; value: RollupPeriod }[] = [
+  { label: "Daily", value: "daily" },
+  { label: "Monthly", value: "monthly" },
+  { label: "Quarterly", value: "quarterly" },
+  { label: "Annual", value: "annual" },
+];
 
-const SCENARIOS: {
-  id: ScenarioId;
-  name: string;
-  description: string;
-  params: SimulationParams;
-}[] = [
-  {
-    id: "prefunded",
-    name: "Pre-Funded Pools",
-    description:
-      "Each investment pool begins with $30M cash which is used to fund commitments as they come in. Cash is assumed to earn 4.0% when idle.",
-    params: PREFUNDED_PARAMS,
+const FUNDING_DESCRIPTIONS: Record<
+  FundingMode,
+  (params: SimulationParams, pools: PoolConfig[], baseRate: string) => string
+> = {
+  prefunded: (params, pools, baseRate) => {
+    const startingCash = pools
+      .map((pool) => formatMillions(params.startingCash[pool.key] ?? 0, 0))
+      .join(" / ");
+    const idleRate = describeRate(
+      params.idleRate,
+      params.rateBasis.idle,
+      baseRate
+    );
+    return `Each investment pool begins with its own cash (${startingCash}) which is used to fund commitments as they come in. Cash is assumed to earn ${idleRate} when idle.`;
   },
-  {
-    id: "internal",
-    name: "Internal Cash Pool",
-    description:
-      "Internally funded borrowing facility allows individual pools to hold zero starting cash and draw needed funds from a centralized pool to meet funding needs. Idle cash earns 4.0%. Pools borrow at 4.0%.",
-    params: DEFAULT_PARAMS,
+  internal: (params, _pools, baseRate) => {
+    const poolSize = formatMillions(params.cashPool, 0);
+    const idleRate = describeRate(
+      params.idleRate,
+      params.rateBasis.idle,
+      baseRate
+    );
+    const borrowRate = describeRate(
+      params.borrowRate,
+      params.rateBasis.borrow,
+      baseRate
+    );
+    return `Internally funded borrowing facility allows individual pools to hold zero starting cash and draw needed funds from a centralized ${poolSize} pool to meet funding needs. Idle cash earns ${idleRate}. Pools borrow at ${borrowRate}.`;
   },
-  {
-    id: "loc",
-    name: "External LOC",
-    description:
-      "Pools tap an external bank line; draws cost cash rate (4.0%) + 40 bps and no idle cash is reserved.",
-    params: LOC_PARAMS,
+  loc: (params, _pools, baseRate) => {
+    const lineRate = describeRate(
+      params.lineRate,
+      params.rateBasis.line,
+      baseRate
+    );
+    const commitment = formatMillions(params.facility.commitment, 0);
+    const undrawnFee = formatPercent(params.facility.undrawnFee, 2);
+    return `Pools tap a ${commitment} external bank line; draws cost ${lineRate}, the undrawn commitment costs ${undrawnFee} and no idle cash is reserved. Calls beyond the commitment or a pool's sublimit go unfunded.`;
   },
-];
+  hybrid: (params, _pools, baseRate) => {
+    const poolSize = formatMillions(params.cashPool, 0);
+    const floor = formatMillions(params.cashPoolFloor, 0);
+    const borrowRate = describeRate(
+      params.borrowRate,
+      params.rateBasis.borrow,
+      baseRate
+    );
+    const lineRate = describeRate(
+      params.lineRate,
+      params.rateBasis.line,
+      baseRate
+    );
+    const commitment = formatMillions(params.facility.commitment, 0);
+    return `Pools draw on a ${poolSize} internal cash pool at ${borrowRate} until it reaches its ${floor} minimum balance, then on a ${commitment} external line at ${lineRate}. Repayments clear the line first.`;
+  },
+};
 
 export default function Home() {
-  const [results, setResults] = useState<Record<
-    ScenarioId,
-    SimulationResult
-  > | null>(null);
-  const [activeScenario, setActiveScenario] = useState<ScenarioId>("prefunded");
+  const [scenarios, setScenarios] = useState(DEFAULT_SCENARIOS);
+  const [activeScenario, setActiveScenario] = useState<ScenarioId>(
+    DEFAULT_SCENARIOS[0].id
+  );
   const [viewMode, setViewMode] = useState<ViewMode>("cash");
-  const [showSummary, setShowSummary] = useState(false);
+  const [period, setPeriod] = useState<RollupPeriod>("daily");
+  const [pageView, setPageView] = useState<PageView>("scenario");
+  const [showParams, setShowParams] = useState(false);
+  const [showCharts, setShowCharts] = useState(true);
+  const [debug, setDebug] = useState(false);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [seedInput, setSeedInput] = useState("");
+  const [pathSettings, setPathSettings] = useState(DEFAULT_PATH_SETTINGS);
+  const [pools, setPools] = useState(DEFAULT_POOLS);
+  const [loadedSets, setLoadedSets] = useState(0);
+  const [schedule, setSchedule] = useState<CashFlowSchedule | null>(null);
+  const days = schedule ? scheduleDays(schedule) : pathSettings.days;
+  const calendar = useMemo(
+    () =>
+      schedule
+        ? { ...pathSettings, startDate: schedule.startDate }
+        : pathSettings,
+    [schedule, pathSettings]
+  );
+  const baseRates = useMemo(
+    () =>
+      baseRatePath(
+        pathSettings.baseRate,
+        calendar.startDate,
+        days,
+        seed === null ? undefined : createRateRandom(seed)
+      ),
+    [pathSettings.baseRate, calendar.startDate, days, seed]
+  );
 
-  const runAllScenarios = () => {
-    const dayEvents = generateDayEvents(DEFAULT_PARAMS.days);
-    const scenarioResults = SCENARIOS.reduce((acc, scenario) => {
-      acc[scenario.id] = runSimulation(scenario.params, dayEvents, scenario.id);
+  const dayEvents = useMemo(() => {
+    if (schedule) return scheduleToDayEvents(schedule, pools);
+    return seed === null
+      ? null
+      : generateDayEvents(
+          pathSettings.days,
+          createRandom(seed),
+          pools,
+          pathSettings.eventModel
+        );
+  }, [schedule, seed, pathSettings.days, pathSettings.eventModel, pools]);
+
+  const results = useMemo(() => {
+    if (!dayEvents) return null;
+    return scenarios.reduce((acc, scenario) => {
+      acc[scenario.id] = runSimulation(
+        { ...scenario.params, days },
+        dayEvents,
+        { pools, calendar, baseRates }
+      );
       return acc;
     }, {} as Record<ScenarioId, SimulationResult>);
-    setResults(scenarioResults);
+  }, [dayEvents, scenarios, days, pools, calendar, baseRates]);
+
+  const handlePoolsChange = (nextPools: PoolConfig[]) => {
+    const keys = new Set(nextPools.map((pool) => pool.key));
+    const keep = (values: Record<PoolKey, number>) =>
+      Object.fromEntries(
+        Object.entries(values).filter(([key]) => keys.has(key))
+      );
+    setPools(nextPools);
+    setScenarios((current) =>
+      current.map((scenario) => ({
+        ...scenario,
+        params: {
+          ...scenario.params,
+          startingCash: keep(scenario.params.startingCash),
+          facility: {
+            ...scenario.params.facility,
+            sublimits: keep(scenario.params.facility.sublimits),
+          },
+        },
+      }))
+    );
+  };
+
+  const openScenario = (id: ScenarioId) => {
+    setPageView("scenario");
+    setActiveScenario(id);
+  };
+
+  const handleScenarioChange = (next: ScenarioConfig) => {
+    setScenarios((current) =>
+      current.map((scenario) => (scenario.id === next.id ? next : scenario))
+    );
+  };
+
+  const handleAddScenario = () => {
+    const scenario = createScenario(scenarios, "internal");
+    setScenarios([...scenarios, scenario]);
+    openScenario(scenario.id);
+    setShowParams(true);
+  };
+
+  const handleCloneScenario = (source: ScenarioConfig) => {
+    const scenario = cloneScenario(scenarios, source);
+    setScenarios([...scenarios, scenario]);
+    openScenario(scenario.id);
+  };
+
+  const handleDeleteScenario = (id: ScenarioId) => {
+    const remaining = scenarios.filter((scenario) => scenario.id !== id);
+    if (remaining.length === 0) return;
+    setScenarios(remaining);
+    if (activeScenario === id) {
+      setActiveScenario(remaining[0].id);
+    }
+  };
+
+  const startRun = (runSeed: number) => {
+    setSeed(runSeed);
+    setSeedInput(String(runSeed));
+    writeSeedToUrl(runSeed);
+  };
+
+  const handleLoadSet = (set: ScenarioSet) => {
+    setScenarios(set.scenarios);
+    setPools(set.pools);
+    setPathSettings(set.pathSettings);
+    setSchedule(set.schedule ?? null);
+    setLoadedSets((count) => count + 1);
+    openScenario(set.scenarios[0].id);
+    startRun(set.seed ?? randomSeed());
   };
 
   useEffect(() => {
     const frame = requestAnimationFrame(() => {
-      runAllScenarios();
+      const urlSeed = parseSeed(
+        new URLSearchParams(window.location.search).get("seed")
+      );
+      startRun(urlSeed ?? randomSeed());
     });
     return () => cancelAnimationFrame(frame);
   }, []);
 
   const handleRerun = () => {
-    runAllScenarios();
+    startRun(randomSeed());
+  };
+
+  const seedInputValue = parseSeed(seedInput);
+  const handleReplay = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (seedInputValue !== null) {
+      startRun(seedInputValue);
+    }
+  };
+
+  const activeScenarioMeta =
+    scenarios.find((scenario) => scenario.id === activeScenario) ??
+    scenarios[0];
+  const currentResult = results ? results[activeScenarioMeta.id] : null;
+
+  const runLabel = schedule ? toFileSlug(schedule.name) : `seed-${seed}`;
+
+  const handleExportCsv = () => {
+    if (!results) return;
+    if (pageView === "summary") {
+      downloadFile(
+        `scenario-summary-${runLabel}.csv`,
+        toCsv(scenarioSummaryTable(scenarios, results)),
+        "text/csv"
+      );
+    } else if (currentResult) {
+      downloadFile(
+        `${toFileSlug(activeScenarioMeta.name)}-${runLabel}.csv`,
+        toCsv(
+          dailyRecordsTable(activeScenarioMeta, currentResult, pools, period)
+        ),
+        "text/csv"
+      );
+    }
   };
 
-  const activeScenarioMeta = SCENARIOS.find(
-    (scenario) => scenario.id === activeScenario
-  )!;
-  const currentResult = results ? results[activeScenario] : null;
+  const handleExportWorkbook = async () => {
+    if (!results) return;
+    const workbook = await toWorkbook([
+      scenarioSummaryTable(scenarios, results),
+      dailyDragTable(scenarios, results, period),
+      ...scenarios.map((scenario) =>
+        dailyRecordsTable(scenario, results[scenario.id], pools, period)
+      ),
+      ...scenarios.flatMap((scenario) =>
+        results[scenario.id].journal.length > 0
+          ? [journalTable(scenario, results[scenario.id].journal, pools)]
+          : []
+      ),
+    ]);
+    downloadFile(
+      `cash-drag-${runLabel}.xlsx`,
+      workbook,
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900">
@@ -208,23 +363,99 @@ export default function Home() {
                   Internal Cash Pool Analysis
                 </p>
                 <h1 className="text-3xl font-semibold text-slate-900">
-                  {showSummary
+                  {pageView === "summary"
                     ? "Scenario Comparison Summary"
+                    : pageView === "monteCarlo"
+                    ? "Monte Carlo Drag Distribution"
+                    : pageView === "optimizer"
+                    ? "Cash Pool Optimizer"
+                    : pageView === "stress"
+                    ? "Stress Tests"
+                    : pageView === "sets"
+                    ? "Saved Scenario Sets"
                     : `${activeScenarioMeta.name}`}
                 </h1>
                 <p className="text-sm text-slate-600">
-                  {showSummary
+                  {pageView === "summary"
                     ? "Track cumulative performance drag across all scenarios to compare outcomes."
-                    : activeScenarioMeta.description}
+                    : pageView === "monteCarlo"
+                    ? "Run every scenario across thousands of shared event paths to compare the spread of total drag."
+                    : pageView === "optimizer"
+                    ? "Search cash pool sizes and pre-funding levels for the least expected drag that keeps shortfall risk within a limit."
+                    : pageView === "stress"
+                    ? "Overlay predefined shocks on the current event path to see whether each structure survives a bad month."
+                    : pageView === "sets"
+                    ? "Save the current scenarios, pools and seed in this browser, or exchange them with colleagues as JSON files."
+                    : FUNDING_DESCRIPTIONS[activeScenarioMeta.params.funding](
+                        activeScenarioMeta.params,
+                        pools,
+                        pathSettings.baseRate.name
+                      )}
                 </p>
               </div>
-              <button
-                type="button"
-                onClick={handleRerun}
-                className="rounded-xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
-              >
-                Rerun Simulation
-              </button>
+              {schedule ? (
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      Schedule
+                    </p>
+                    <p className="font-semibold text-slate-900">
+                      {schedule.name}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {schedule.startDate} to {schedule.endDate}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSchedule(null)}
+                    className="rounded-xl border border-slate-300 px-5 py-3 text-sm font-semibold text-slate-700 transition hover:border-slate-400"
+                  >
+                    Use Random Events
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-3">
+                  <form
+                    onSubmit={handleReplay}
+                    className="flex items-center gap-2 rounded-xl border border-slate-200 bg-slate-50 py-1 pl-3 pr-1 text-sm"
+                  >
+                    <label
+                      htmlFor="seed-input"
+                      className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+                    >
+                      Seed
+                    </label>
+                    <input
+                      id="seed-input"
+                      inputMode="numeric"
+                      value={seedInput}
+                      onChange={(event) => setSeedInput(event.target.value)}
+                      className={`w-28 rounded-lg border bg-white px-2 py-1.5 font-mono text-sm text-slate-900 outline-none focus:border-slate-400 ${
+                        seedInputValue === null
+                          ? "border-rose-300"
+                          : "border-slate-200"
+                      }`}
+                    />
+                    <button
+                      type="submit"
+                      disabled={
+                        seedInputValue === null || seedInputValue === seed
+                      }
+                      className="rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      Replay
+                    </button>
+                  </form>
+                  <button
+                    type="button"
+                    onClick={handleRerun}
+                    className="rounded-xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
+                  >
+                    Rerun Simulation
+                  </button>
+                </div>
+              )}
             </div>
             {/* <div className="mt-4 flex flex-wrap gap-3 text-xs text-slate-500">
               <span className="rounded-full border border-slate-200 px-3 py-1">
@@ -243,45 +474,186 @@ export default function Home() {
 
           <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
             <ScenarioTabs
-              scenarios={SCENARIOS}
-              activeId={activeScenario}
-              onChange={(id) => {
-                setShowSummary(false);
-                setActiveScenario(id);
-              }}
-              summaryActive={showSummary}
-              onSummary={() => setShowSummary(true)}
+              scenarios={scenarios}
+              activeId={activeScenarioMeta.id}
+              onChange={openScenario}
+              onAdd={handleAddScenario}
+              activeView={pageView}
+              onViewChange={setPageView}
             />
-            {!showSummary && (
-              <ViewToggle mode={viewMode} onChange={setViewMode} />
-            )}
+            <div className="flex flex-wrap items-center gap-3">
+              {pageView === "scenario" && (
+                <ViewToggle mode={viewMode} onChange={setViewMode} />
+              )}
+              {pageView === "scenario" && (
+                <button
+                  type="button"
+                  onClick={() => setShowCharts((open) => !open)}
+                  className={`rounded-full border px-4 py-2 text-xs font-semibold transition ${
+                    showCharts
+                      ? "border-slate-900 bg-slate-900 text-white shadow-sm"
+                      : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:text-slate-900"
+                  }`}
+                >
+                  {showCharts ? "Hide Charts" : "Show Charts"}
+                </button>
+              )}
+              {pageView === "scenario" && (
+                <button
+                  type="button"
+                  onClick={() => setDebug((open) => !open)}
+                  aria-pressed={debug}
+                  className={`rounded-full border px-4 py-2 text-xs font-semibold transition ${
+                    debug
+                      ? "border-slate-900 bg-slate-900 text-white shadow-sm"
+                      : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:text-slate-900"
+                  }`}
+                >
+                  Debug
+                </button>
+              )}
+              {(pageView === "scenario" || pageView === "summary") && (
+                <PeriodToggle period={period} onChange={setPeriod} />
+              )}
+              {(pageView === "scenario" || pageView === "summary") &&
+                results && (
+                  <ExportButtons
+                    onExportCsv={handleExportCsv}
+                    onExportWorkbook={handleExportWorkbook}
+                  />
+                )}
+              <button
+                type="button"
+                onClick={() => setShowParams((open) => !open)}
+                className={`rounded-full border px-4 py-2 text-xs font-semibold transition ${
+                  showParams
+                    ? "border-slate-900 bg-slate-900 text-white shadow-sm"
+                    : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:text-slate-900"
+                }`}
+              >
+                {showParams ? "Hide Parameters" : "Edit Parameters"}
+              </button>
+            </div>
           </div>
 
-          {showSummary ? (
-            results ? (
-              <SummaryTable results={results} />
-            ) : (
-              <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
-                <p className="text-lg font-medium">Simulating scenarios…</p>
-                <p className="mt-2 text-sm">
-                  Results will appear here as soon as the first run finishes.
-                </p>
-              </section>
-            )
-          ) : currentResult ? (
-            <SimulationResults
-              result={currentResult}
-              scenarioId={activeScenario}
-              viewMode={viewMode}
-            />
-          ) : (
-            <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
-              <p className="text-lg font-medium">Simulating scenarios…</p>
-              <p className="mt-2 text-sm">
-                Results will appear here as soon as the first run finishes.
-              </p>
-            </section>
-          )}
+          <div
+            className={
+              showParams
+                ? "grid gap-6 lg:grid-cols-[minmax(0,1fr)_20rem] lg:items-start"
+                : ""
+            }
+          >
+            <div className="min-w-0">
+              <MonteCarloPanel
+                className={pageView === "monteCarlo" ? "" : "hidden"}
+                scenarios={scenarios}
+                pools={pools}
+                pathSettings={pathSettings}
+                seed={seed}
+              />
+              <OptimizerPanel
+                className={pageView === "optimizer" ? "" : "hidden"}
+                scenarios={scenarios}
+                pools={pools}
+                pathSettings={pathSettings}
+                seed={seed}
+                onApply={handleScenarioChange}
+              />
+              {pageView === "monteCarlo" ||
+              pageView === "optimizer" ? null : pageView === "stress" ? (
+                dayEvents ? (
+                  <StressTestPanel
+                    scenarios={scenarios}
+                    pools={pools}
+                    calendar={calendar}
+                    dayEvents={dayEvents}
+                    baseRates={baseRates}
+                  />
+                ) : (
+                  <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
+                    <p className="text-lg font-medium">Simulating scenarios…</p>
+                    <p className="mt-2 text-sm">
+                      Stress tests will appear here as soon as the event path is
+                      ready.
+                    </p>
+                  </section>
+                )
+              ) : pageView === "sets" ? (
+                <ScenarioSetsPanel
+                  scenarios={scenarios}
+                  pools={pools}
+                  pathSettings={pathSettings}
+                  seed={seed}
+                  schedule={schedule}
+                  onLoad={handleLoadSet}
+                />
+              ) : pageView === "summary" ? (
+                results ? (
+                  <div className="space-y-6">
+                    <SummaryTable
+                      scenarios={scenarios}
+                      results={results}
+                      period={period}
+                    />
+                    {scenarios.length > 1 && (
+                      <AttributionPanel
+                        scenarios={scenarios}
+                        results={results}
+                        pools={pools}
+                      />
+                    )}
+                  </div>
+                ) : (
+                  <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
+                    <p className="text-lg font-medium">Simulating scenarios…</p>
+                    <p className="mt-2 text-sm">
+                      Results will appear here as soon as the first run
+                      finishes.
+                    </p>
+                  </section>
+                )
+              ) : currentResult ? (
+                <SimulationResults
+                  scenarioId={activeScenarioMeta.id}
+                  scenarios={scenarios}
+                  results={results ?? {}}
+                  showCharts={showCharts}
+                  debug={debug}
+                  result={currentResult}
+                  funding={activeScenarioMeta.params.funding}
+                  pools={pools}
+                  viewMode={viewMode}
+                  period={period}
+                  runLabel={runLabel}
+                />
+              ) : (
+                <section className="rounded-2xl border border-dashed border-slate-300 bg-white p-12 text-center text-slate-500">
+                  <p className="text-lg font-medium">Simulating scenarios…</p>
+                  <p className="mt-2 text-sm">
+                    Results will appear here as soon as the first run finishes.
+                  </p>
+                </section>
+              )}
+            </div>
+            {showParams && (
+              <ParameterPanel
+                key={`${loadedSets}-${activeScenarioMeta.id}`}
+                scenario={activeScenarioMeta}
+                scenarios={scenarios}
+                onScenarioChange={handleScenarioChange}
+                onCloneScenario={handleCloneScenario}
+                onDeleteScenario={handleDeleteScenario}
+                pathSettings={pathSettings}
+                defaultPathSettings={DEFAULT_PATH_SETTINGS}
+                onPathSettingsChange={setPathSettings}
+                schedule={schedule}
+                onScheduleChange={setSchedule}
+                pools={pools}
+                defaultPools={DEFAULT_POOLS}
+                onPoolsChange={handlePoolsChange}
+              />
+            )}
+          </div>
         </section>
       </div>
     </div>
@@ -289,23 +661,115 @@ export default function Home() {
 }
 
 function SimulationResults({
-  result,
   scenarioId,
+  scenarios,
+  results,
+  showCharts,
+  debug,
+  result,
+  funding,
+  pools,
   viewMode,
+  period,
+  runLabel,
 }: {
-  result: SimulationResult;
   scenarioId: ScenarioId;
+  scenarios: ScenarioConfig[];
+  results: Record<ScenarioId, SimulationResult>;
+  showCharts: boolean;
+  /** Shows the engine's daily cash walk below the results. */
+  debug: boolean;
+  result: SimulationResult;
+  funding: FundingMode;
+  pools: PoolConfig[];
   viewMode: ViewMode;
+  period: RollupPeriod;
+  runLabel: string;
 }) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const scenario = scenarios.find((entry) => entry.id === scenarioId);
+  const records = useMemo(
+    () => rollUpRecords(result.records, period),
+    [result, period]
+  );
+  const comparison = useMemo(
+    () =>
+      showCharts
+        ? scenarios
+            .filter((scenario) => results[scenario.id])
+            .map((scenario) => ({
+              id: scenario.id,
+              name: scenario.name,
+              records: rollUpRecords(results[scenario.id].records, period),
+            }))
+        : [],
+    [showCharts, scenarios, results, period]
+  );
+  const breaks = useMemo(() => conservationBreaks(result.records), [result]);
+  const largestBreak = breaks.reduce<DailyRecord | null>(
+    (largest, record) =>
+      !largest ||
+      Math.abs(record.reconciliation.residual) >
+        Math.abs(largest.reconciliation.residual)
+        ? record
+        : largest,
+    null
+  );
+
   return (
     <div className="space-y-6">
+      {largestBreak && (
+        <section
+          role="alert"
+          className="rounded-2xl border border-rose-300 bg-rose-50 px-5 py-3 text-sm text-rose-700"
+        >
+          <p className="font-semibold">
+            Cash is not conserved on {breaks.length} day
+            {breaks.length === 1 ? "" : "s"} of this run.
+          </p>
+          <p className="mt-1">
+            The largest break is{" "}
+            {formatFullDollars(largestBreak.reconciliation.residual)} on{" "}
+            {formatDate(largestBreak.date)}: money appeared or vanished without
+            a flow to explain it, so these results should not be relied on. Turn
+            on Debug to see the daily cash walk.
+          </p>
+        </section>
+      )}
+      {showCharts && (
+        <ChartsDashboard
+          scenarioId={scenarioId}
+          records={records}
+          comparison={comparison}
+          funding={funding}
+          pools={pools}
+          period={period}
+          hoverIndex={hoverIndex}
+          onHover={setHoverIndex}
+        />
+      )}
+      <AlertsPanel result={result} pools={pools} />
       <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
         <ResultsTable
-          records={result.records}
-          scenarioId={scenarioId}
+          records={records}
+          funding={funding}
+          pools={pools}
           viewMode={viewMode}
+          period={period}
+          hoverIndex={showCharts ? hoverIndex : null}
+          onHover={showCharts ? setHoverIndex : undefined}
         />
       </section>
+      {debug && <ReconciliationPanel records={records} period={period} />}
+      {scenario && (
+        <JournalPanel
+          key={scenario.id}
+          scenario={scenario}
+          result={result}
+          pools={pools}
+          runLabel={runLabel}
+        />
+      )}
     </div>
   );
 }
@@ -314,15 +778,25 @@ function ScenarioTabs({
   scenarios,
   activeId,
   onChange,
-  summaryActive,
-  onSummary,
+  onAdd,
+  activeView,
+  onViewChange,
 }: {
   scenarios: { id: ScenarioId; name: string }[];
   activeId: ScenarioId;
   onChange: (id: ScenarioId) => void;
-  summaryActive: boolean;
-  onSummary: () => void;
+  onAdd: () => void;
+  activeView: PageView;
+  onViewChange: (view: PageView) => void;
 }) {
+  const comparisonViews: { label: string; value: PageView }[] = [
+    { label: "Summary", value: "summary" },
+    { label: "Monte Carlo", value: "monteCarlo" },
+    { label: "Optimizer", value: "optimizer" },
+    { label: "Stress Tests", value: "stress" },
+    { label: "Saved Sets", value: "sets" },
+  ];
+
   return (
     <div className="flex flex-wrap gap-3">
       {scenarios.map((scenario) => (
@@ -331,7 +805,7 @@ function ScenarioTabs({
           type="button"
           onClick={() => onChange(scenario.id)}
           className={`rounded-full border px-4 py-2 text-sm  transition ${
-            activeId === scenario.id && !summaryActive
+            activeId === scenario.id && activeView === "scenario"
               ? "border-slate-900 bg-slate-900 text-white shadow-sm"
               : "border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-900"
           }`}
@@ -341,15 +815,26 @@ function ScenarioTabs({
       ))}
       <button
         type="button"
-        onClick={onSummary}
-        className={`rounded-full border px-4 py-2 text-sm font-semibold transition ${
-          summaryActive
-            ? "border-slate-900 bg-slate-900 text-white shadow-sm"
-            : "border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-900"
-        }`}
+        onClick={onAdd}
+        aria-label="Add scenario"
+        className="rounded-full border border-dashed border-slate-300 px-4 py-2 text-sm text-slate-500 transition hover:border-slate-400 hover:text-slate-900"
       >
-        Summary
+        + Scenario
       </button>
+      {comparisonViews.map((view) => (
+        <button
+          key={view.value}
+          type="button"
+          onClick={() => onViewChange(view.value)}
+          className={`rounded-full border px-4 py-2 text-sm font-semibold transition ${
+            activeView === view.value
+              ? "border-slate-900 bg-slate-900 text-white shadow-sm"
+              : "border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-900"
+          }`}
+        >
+          {view.label}
+        </button>
+      ))}
     </div>
   );
 }
@@ -386,46 +871,122 @@ function ViewToggle({
   );
 }
 
+function PeriodToggle({
+  period,
+  onChange,
+}: {
+  period: RollupPeriod;
+  onChange: (period: RollupPeriod) => void;
+}) {
+  return (
+    <div className="inline-flex items-center rounded-full border border-slate-200 bg-white p-1 text-xs font-semibold text-slate-600 shadow-sm">
+      {PERIOD_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={`rounded-full px-3 py-1 transition ${
+            option.value === period
+              ? "bg-slate-900 text-white shadow"
+              : "text-slate-600 hover:text-slate-900"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ExportButtons({
+  onExportCsv,
+  onExportWorkbook,
+}: {
+  onExportCsv: () => void;
+  onExportWorkbook: () => void;
+}) {
+  const options = [
+    { label: "CSV", onClick: onExportCsv },
+    { label: "Excel", onClick: onExportWorkbook },
+  ];
+
+  return (
+    <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white p-1 text-xs font-semibold text-slate-600 shadow-sm">
+      <span className="px-2 text-slate-400">Export</span>
+      {options.map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          onClick={option.onClick}
+          className="rounded-full px-3 py-1 transition hover:bg-slate-100 hover:text-slate-900"
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 function SummaryTable({
+  scenarios,
   results,
+  period,
 }: {
+  scenarios: ScenarioConfig[];
   results: Record<ScenarioId, SimulationResult>;
+  period: RollupPeriod;
 }) {
-  const days = results[SCENARIOS[0].id].records.length;
-  const scenarioOrder = SCENARIOS.map((scenario) => scenario.id);
-
-  const monthlyDragTotals = scenarioOrder.map((id) => {
-    const latestRecord = results[id].records.at(-1);
-    const poolDrag =
-      latestRecord?.pools.reduce((sum, pool) => sum + pool.cashDrag, 0) ?? 0;
-    const cashPoolDrag = latestRecord?.cashPool.cashDrag ?? 0;
-    const borrowDrag =
-      latestRecord?.pools.reduce((sum, pool) => sum + pool.borrowDrag, 0) ?? 0;
+  const days = results[scenarios[0].id]?.records.length ?? 0;
+  const scenarioOrder = scenarios.map((scenario) => scenario.id);
+  const periodLabel =
+    PERIOD_OPTIONS.find((option) => option.value === period)?.label ?? "";
+
+  const dragTotals = scenarios.map((scenario) => {
+    const result = results[scenario.id];
+    const summary = result?.summary;
     return {
-      id,
-      name: SCENARIOS.find((scenario) => scenario.id === id)!.name,
-      value: poolDrag + cashPoolDrag + borrowDrag,
+      id: scenario.id,
+      name: scenario.name,
+      value: result ? totalDrag(result) : 0,
+      annualized: result ? annualizedDrag(result) : 0,
+      fromCashPool: summary?.totals.borrowedFromCashPool ?? 0,
+      fromLine: summary?.totals.borrowedFromLine ?? 0,
+      facilityFees:
+        (summary?.line.undrawnFees ?? 0) + (summary?.line.upfrontFees ?? 0),
+      shortfallDays: summary?.line.shortfallDays ?? 0,
+      peakShortfall: summary?.line.peakShortfall ?? 0,
+      unsettledFlows: summary?.totals.unsettledFlows ?? 0,
     };
   });
 
-  const runningTotals: Record<ScenarioId, number> = {
-    prefunded: 0,
-    internal: 0,
-    loc: 0,
-  };
+  const runningTotals: Record<ScenarioId, number> = Object.fromEntries(
+    scenarioOrder.map((id) => [id, 0])
+  );
 
-  const rowData = Array.from({ length: days }, (_, index) => {
-    const dayNumber = index + 1;
-    const values: Record<ScenarioId, number> = {
-      prefunded: results.prefunded.records[index]?.totals.drag ?? 0,
-      internal: results.internal.records[index]?.totals.drag ?? 0,
-      loc: results.loc.records[index]?.totals.drag ?? 0,
-    };
-    runningTotals.prefunded += values.prefunded;
-    runningTotals.internal += values.internal;
-    runningTotals.loc += values.loc;
+  const periodRecords: Record<ScenarioId, PeriodRecord[]> = Object.fromEntries(
+    scenarioOrder.map((id) => [
+      id,
+      results[id] ? rollUpRecords(results[id].records, period) : [],
+    ])
+  );
+  const calendarRecords = scenarioOrder
+    .map((id) => periodRecords[id])
+    .find((records) => records.length > 0);
+
+  const rowData = (calendarRecords ?? []).map((record, index) => {
+    const values: Record<ScenarioId, number> = Object.fromEntries(
+      scenarioOrder.map((id) => [
+        id,
+        periodRecords[id][index]?.totals.drag ?? 0,
+      ])
+    );
+    for (const id of scenarioOrder) {
+      runningTotals[id] += values[id];
+    }
     return {
-      day: dayNumber,
+      day: record.day,
+      label: period === "daily" ? formatDate(record.date) : record.period,
+      businessDay: record.businessDay,
       values: { ...values },
       cumulative: { ...runningTotals },
     };
@@ -434,31 +995,56 @@ function SummaryTable({
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
       <h2 className="text-lg font-semibold text-slate-900">
-        Daily Total Drag Comparison
+        {periodLabel} Total Drag Comparison
       </h2>
       <p className="text-sm text-slate-500">
-        All figures show the daily drag and the running total (cash + borrow)
-        per scenario.
+        Running total drag (cash + borrow) per scenario at the end of each
+        period, over the full {days}-day horizon; hover for the period&apos;s
+        own drag. Annualized drag scales the horizon total to 365 days.
       </p>
-      <div className="mt-4 grid gap-3 md:grid-cols-3">
-        {monthlyDragTotals.map((entry) => (
+      <div className="mt-4 grid gap-3 md:grid-cols-[repeat(auto-fit,minmax(14rem,1fr))]">
+        {dragTotals.map((entry) => (
           <div
             key={`cash-drag-${entry.id}`}
             className="rounded-2xl border border-slate-100 bg-slate-50 p-4 text-sm text-slate-600"
           >
             <p className="font-semibold text-slate-900">{entry.name}</p>
             <p className="mt-1 text-xs uppercase tracking-wide text-slate-500">
-              Monthly Performance Drag
+              Total Drag ({days} days)
             </p>
             <p className="text-lg font-bold text-slate-900">
               {formatFullDollars(entry.value)}
             </p>
             <p className="mt-1 text-xs uppercase tracking-wide text-slate-500">
-              Estimated Annual Drag
+              Annualized Drag
             </p>
             <p className="text-base text-slate-900">
-              {formatFullDollars(entry.value * 12)}
+              {formatFullDollars(entry.annualized)}
             </p>
+            {entry.fromLine > 0 && (
+              <p className="mt-2 text-xs text-slate-500">
+                Drawn {formatMillions(entry.fromCashPool, 1)} from cash pool,{" "}
+                {formatMillions(entry.fromLine, 1)} from LOC
+              </p>
+            )}
+            {entry.facilityFees > 0 && (
+              <p className="mt-1 text-xs text-slate-500">
+                Facility fees {formatFullDollars(entry.facilityFees)}
+              </p>
+            )}
+            {entry.shortfallDays > 0 && (
+              <p className="mt-1 text-xs font-semibold text-rose-600">
+                Unfunded on {entry.shortfallDays} day
+                {entry.shortfallDays === 1 ? "" : "s"}, peak{" "}
+                {formatMillions(entry.peakShortfall, 1)}
+              </p>
+            )}
+            {entry.unsettledFlows !== 0 && (
+              <p className="mt-1 text-xs text-slate-500">
+                {formatMillions(entry.unsettledFlows, 1)} of events still
+                waiting to settle after the last day
+              </p>
+            )}
           </div>
         ))}
       </div>
@@ -466,15 +1052,17 @@ function SummaryTable({
         <table className="min-w-full table-auto divide-y divide-slate-100 text-sm">
           <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-600">
             <tr>
-              <th className="px-3 py-2 text-left">Day</th>
-              {scenarioOrder.map((id) => {
-                const scenario = SCENARIOS.find((scn) => scn.id === id)!;
-                return (
-                  <th key={`summary-${id}`} className="px-3 py-2 text-left">
-                    {scenario.name}
-                  </th>
-                );
-              })}
+              <th className="px-3 py-2 text-left">
+                {period === "daily" ? "Date" : "Period"}
+              </th>
+              {scenarios.map((scenario) => (
+                <th
+                  key={`summary-${scenario.id}`}
+                  className="px-3 py-2 text-left"
+                >
+                  {scenario.name}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100 bg-white">
@@ -483,8 +1071,12 @@ function SummaryTable({
                 key={`summary-row-${row.day}`}
                 className="transition hover:bg-amber-50"
               >
-                <td className="cell-highlight px-3 py-2  text-slate-900">
-                  Day {row.day}
+                <td
+                  className={`cell-highlight whitespace-nowrap px-3 py-2 ${
+                    row.businessDay ? "text-slate-900" : "text-slate-400"
+                  }`}
+                >
+                  {row.label}
                 </td>
                 {scenarioOrder.map((id) => (
                   <td
@@ -494,9 +1086,9 @@ function SummaryTable({
                     <span
                       className="tooltip-wrapper text-[13px]  text-slate-900"
                       data-tooltip={
-                        row.cumulative[id] === 0
-                          ? "No drag"
-                          : formatFullDollars(row.cumulative[id])
+                        row.values[id] === 0
+                          ? "No drag this period"
+                          : `${formatFullDollars(row.values[id])} this period`
                       }
                     >
                       {row.cumulative[id] === 0
@@ -516,14 +1108,23 @@ function SummaryTable({
 
 function ResultsTable({
   records,
-  scenarioId,
+  funding,
+  pools,
   viewMode,
+  period,
+  hoverIndex,
+  onHover,
 }: {
-  records: DailyRecord[];
-  scenarioId: ScenarioId;
+  records: PeriodRecord[];
+  funding: FundingMode;
+  pools: PoolConfig[];
   viewMode: ViewMode;
+  period: RollupPeriod;
+  /** Row under the chart crosshair. */
+  hoverIndex: number | null;
+  onHover?: (index: number | null) => void;
 }) {
-  const cashPoolDormant = scenarioId === "prefunded";
+  const cashPoolDormant = !holdsReserve(funding);
   const cashPoolHeaderClass = cashPoolDormant ? "opacity-50" : "";
   const cashPoolCellClass = cashPoolDormant ? "opacity-60" : "";
   const poolHeaders =
@@ -532,6 +1133,10 @@ function ResultsTable({
     viewMode === "drag"
       ? ["Cash Drag", "Borrow Drag", "Total Drag"]
       : ["Cash", "Activity", "Int Earn", "Int Recv"];
+  const lineHeaders =
+    viewMode === "drag"
+      ? ["Interest", "Undrawn Fee", "Upfront Fee"]
+      : ["Draw", "Repaid", "Balance", "Shortfall"];
 
   return (
     <div className="rounded-2xl border border-slate-100 overflow-x-auto">
@@ -539,7 +1144,7 @@ function ResultsTable({
         <thead className="text-xs uppercase tracking-wide text-slate-600">
           <tr>
             <th rowSpan={2} className="bg-slate-50 px-2 py-2 text-center">
-              Day
+              {period === "daily" ? "Date" : "Period"}
             </th>
             <th
               colSpan={cashPoolHeaders.length}
@@ -548,7 +1153,19 @@ function ResultsTable({
             >
               Cash Pool
             </th>
-            {POOL_CONFIGS.map((pool) => (
+            {usesLine(funding) && (
+              <th
+                colSpan={lineHeaders.length}
+                className="px-2 py-2 text-center font-semibold"
+                style={{
+                  backgroundColor: withAlpha(LINE_COLOR, 0.1),
+                  color: LINE_COLOR,
+                }}
+              >
+                External Line
+              </th>
+            )}
+            {pools.map((pool) => (
               <th
                 key={`${pool.key}-group`}
                 colSpan={poolHeaders.length}
@@ -559,11 +1176,9 @@ function ResultsTable({
                 }}
               >
                 <span className="flex flex-col text-xs font-semibold uppercase tracking-wide">
-                  <span className="text-sm normal-case">
-                    {POOL_HEADER_LABELS[pool.key]}
-                  </span>
+                  <span className="text-sm normal-case">{pool.name} Pool</span>
                   <span className="italic text-[11px] text-slate-600">
-                    Exp. Ret. {EXPECTED_RETURNS[pool.key].toFixed(1)}%
+                    Exp. Ret. {pool.expectedReturn.toFixed(1)}%
                   </span>
                 </span>
               </th>
@@ -580,7 +1195,20 @@ function ResultsTable({
                 </th>
               ))}
             </Fragment>
-            {POOL_CONFIGS.map((pool) => (
+            {usesLine(funding) &&
+              lineHeaders.map((label) => (
+                <th
+                  key={`line-${label}`}
+                  className="px-2 py-2 text-center font-medium"
+                  style={{
+                    backgroundColor: withAlpha(LINE_COLOR, 0.05),
+                    color: LINE_COLOR,
+                  }}
+                >
+                  {label}
+                </th>
+              ))}
+            {pools.map((pool) => (
               <Fragment key={`${pool.key}-subheaders`}>
                 {poolHeaders.map((label) => (
                   <th
@@ -599,14 +1227,31 @@ function ResultsTable({
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100 bg-white">
-          {records.map((record) => (
-            <tr key={record.day} className="transition hover:bg-amber-50">
-              <td className="cell-highlight px-2 py-2 text-center text-slate-900">
+          {records.map((record, index) => (
+            <tr
+              key={record.day}
+              onMouseEnter={onHover && (() => onHover(index))}
+              onMouseLeave={onHover && (() => onHover(null))}
+              className={`transition hover:bg-amber-50 ${
+                index === hoverIndex
+                  ? "bg-amber-100"
+                  : record.shortfalls.length > 0
+                  ? "bg-rose-50"
+                  : record.alerts.length > 0
+                  ? "bg-orange-50"
+                  : ""
+              }`}
+            >
+              <td
+                className={`cell-highlight whitespace-nowrap px-2 py-2 text-center ${
+                  record.businessDay ? "text-slate-900" : "text-slate-400"
+                }`}
+              >
                 <span
                   className="tooltip-wrapper"
-                  data-tooltip={`Day ${record.day}`}
+                  data-tooltip={describePeriod(record, period, pools)}
                 >
-                  {record.day}
+                  {period === "daily" ? formatDate(record.date) : record.period}
                 </span>
               </td>
               {viewMode === "cash" ? (
@@ -627,14 +1272,14 @@ function ResultsTable({
                     <span
                       className="tooltip-wrapper"
                       data-tooltip={
-                        record.activity.CP === 0
+                        record.activity[CASH_POOL_KEY] === 0
                           ? "No activity"
-                          : formatFullDollars(record.activity.CP)
+                          : formatFullDollars(record.activity[CASH_POOL_KEY])
                       }
                     >
-                      {record.activity.CP === 0
+                      {record.activity[CASH_POOL_KEY] === 0
                         ? "—"
-                        : formatMillions(record.activity.CP, 1)}
+                        : formatMillions(record.activity[CASH_POOL_KEY], 1)}
                     </span>
                   </td>
                   <td
@@ -642,9 +1287,11 @@ function ResultsTable({
                   >
                     <span
                       className="tooltip-wrapper"
-                      data-tooltip={formatFullDollars(
+                      data-tooltip={`${formatFullDollars(
                         record.cashPool.interestEarned
-                      )}
+                      )} earned • ${formatFullDollars(
+                        record.cashPool.idleInterestAccrued
+                      )} unsettled`}
                     >
                       {formatThousands(record.cashPool.interestEarned, 1)}
                     </span>
@@ -723,7 +1370,44 @@ function ResultsTable({
                   </td>
                 </>
               )}
-              {POOL_CONFIGS.map((pool) => {
+              {usesLine(funding) &&
+                (viewMode === "cash" ? (
+                  <>
+                    <LineCell
+                      value={record.totals.borrowedFromLine}
+                      emptyLabel="No draws"
+                    />
+                    <LineCell
+                      value={record.totals.repaidToLine}
+                      emptyLabel="No repayments"
+                    />
+                    <LineCell value={record.totals.lineBalance} />
+                    <LineCell
+                      value={record.totals.shortfall}
+                      emptyLabel="No shortfall"
+                      alert
+                    />
+                  </>
+                ) : (
+                  <>
+                    <LineCell
+                      value={record.totals.lineInterest}
+                      emptyLabel="No line interest"
+                      format={formatFullDollars}
+                    />
+                    <LineCell
+                      value={record.totals.undrawnFee}
+                      emptyLabel="No undrawn fee"
+                      format={formatFullDollars}
+                    />
+                    <LineCell
+                      value={record.totals.upfrontFee}
+                      emptyLabel="No upfront fee"
+                      format={formatFullDollars}
+                    />
+                  </>
+                ))}
+              {pools.map((pool) => {
                 const poolState = record.pools.find((p) => p.key === pool.key)!;
                 return (
                   <Fragment key={`${record.day}-${pool.key}`}>
@@ -763,7 +1447,15 @@ function ResultsTable({
                         >
                           <span
                             className="tooltip-wrapper"
-                            data-tooltip={formatFullDollars(poolState.borrow)}
+                            data-tooltip={
+                              poolState.lineBorrow > 0
+                                ? `${formatFullDollars(
+                                    poolState.borrow - poolState.lineBorrow
+                                  )} cash pool • ${formatFullDollars(
+                                    poolState.lineBorrow
+                                  )} line`
+                                : formatFullDollars(poolState.borrow)
+                            }
                           >
                             {formatMillions(poolState.borrow, 1)}
                           </span>
@@ -774,11 +1466,11 @@ function ResultsTable({
                         >
                           <span
                             className="tooltip-wrapper"
-                            data-tooltip={formatFullDollars(
-                              poolState.interestOwed
-                            )}
+                            data-tooltip={`${formatFullDollars(
+                              poolState.interestAccrued
+                            )} accrued, not yet due`}
                           >
-                            {formatThousands(poolState.interestOwed, 1)}
+                            {formatThousands(poolState.interestAccrued, 1)}
                           </span>
                         </td>
                         <td
@@ -787,11 +1479,32 @@ function ResultsTable({
                         >
                           <span
                             className="tooltip-wrapper"
-                            data-tooltip={
+                            data-tooltip={`${formatFullDollars(
+                              poolState.interestOwed - poolState.interestAccrued
+                            )} due and unpaid`}
+                          >
+                            {formatThousands(
+                              poolState.interestOwed -
+                                poolState.interestAccrued,
+                              1
+                            )}
+                          </span>
+                        </td>
+                        <td
+                          className="cell-highlight px-2 py-2 text-center"
+                          style={{ color: pool.color }}
+                        >
+                          <span
+                            className="tooltip-wrapper"
+                            data-tooltip={`${
                               poolState.interestEarned === 0
                                 ? "No interest earned"
-                                : formatFullDollars(poolState.interestEarned)
-                            }
+                                : `${formatFullDollars(
+                                    poolState.interestEarned
+                                  )} earned`
+                            } • ${formatFullDollars(
+                              poolState.idleInterestAccrued
+                            )} unsettled`}
                           >
                             {poolState.interestEarned === 0
                               ? "—"
@@ -869,297 +1582,88 @@ function ResultsTable({
   );
 }
 
-function runSimulation(
-  params: SimulationParams,
-  dayEvents: DayEvent[],
-  scenarioId: ScenarioId
-): SimulationResult {
-  const pools: PoolState[] = [
-    {
-      key: "PE",
-      name: "Private Equity",
-      cash: params.peCash,
-      borrow: 0,
-      interestOwed: 0,
-      interestPaid: 0,
-      interestEarned: 0,
-      cashDrag: 0,
-      borrowDrag: 0,
-    },
-    {
-      key: "PC",
-      name: "Private Credit",
-      cash: params.pcCash,
-      borrow: 0,
-      interestOwed: 0,
-      interestPaid: 0,
-      interestEarned: 0,
-      cashDrag: 0,
-      borrowDrag: 0,
-    },
-    {
-      key: "PRE",
-      name: "Private Real Estate",
-      cash: params.preCash,
-      borrow: 0,
-      interestOwed: 0,
-      interestPaid: 0,
-      interestEarned: 0,
-      cashDrag: 0,
-      borrowDrag: 0,
-    },
-  ];
-
-  const cashPool: CashPoolState = {
-    cash: params.cashPool,
-    interestEarned: 0,
-    interestReceivable: 0,
-    activity: 0,
-    cashDrag: 0,
-    borrowDrag: 0,
-  };
-
-  const dailyBorrowRate = params.borrowRate / 100 / 365;
-  const dailyIdleRate = params.idleRate / 100 / 365;
-
-  const records: DailyRecord[] = [];
-  let totalBorrowed = 0;
-  let totalRepaid = 0;
-  let pendingCashInterest = 0;
-  let totalInterestEarned = 0;
-  const pendingPoolInterest: Record<PoolKey, number> = { PE: 0, PC: 0, PRE: 0 };
-
-  for (let day = 1; day <= params.days; day++) {
-    const events = dayEvents[day - 1] ?? { PE: 0, PC: 0, PRE: 0 };
-    if (pendingCashInterest !== 0) {
-      cashPool.cash += pendingCashInterest;
-    }
-    cashPool.interestEarned = 0;
-    for (const pool of pools) {
-      if (pendingPoolInterest[pool.key] !== 0) {
-        pool.cash += pendingPoolInterest[pool.key];
-        pendingPoolInterest[pool.key] = 0;
-      }
-      pool.interestEarned = 0;
-    }
-
-    const dailyActivity: Record<PoolKey | "CP", number> = {
-      PE: 0,
-      PC: 0,
-      PRE: 0,
-      CP: 0,
-    };
-    let borrowedToday = 0;
-    let repaidToday = 0;
-    const dayInterest: Record<PoolKey | "CP", number> = {
-      PE: 0,
-      PC: 0,
-      PRE: 0,
-      CP: 0,
-    };
-    let dragToday = 0;
-
-    for (const pool of pools) {
-      const eventAmount = events[pool.key] ?? 0;
-      pool.cash += eventAmount;
-      dailyActivity[pool.key] += eventAmount;
-
-      if (pool.cash < 0) {
-        const deficit = Math.abs(pool.cash);
-        pool.borrow += deficit;
-        borrowedToday += deficit;
-        cashPool.cash -= deficit;
-        dailyActivity.CP -= deficit;
-        pool.cash = 0;
-      }
-
-      if (pool.borrow > 0) {
-        const interest = pool.borrow * dailyBorrowRate;
-        pool.interestOwed += interest;
-        pool.borrowDrag += interest;
-        dragToday += interest;
-        dayInterest[pool.key] += interest;
-      }
-    }
-
-    for (const pool of pools) {
-      if (pool.cash <= 0 || (pool.borrow === 0 && pool.interestOwed === 0))
-        continue;
-      let available = pool.cash;
-      let payment = 0;
-
-      if (pool.interestOwed > 0) {
-        const interestPayment = Math.min(pool.interestOwed, available);
-        pool.interestOwed -= interestPayment;
-        available -= interestPayment;
-        payment += interestPayment;
-        pool.interestPaid += interestPayment;
-      }
-
-      if (available > 0 && pool.borrow > 0) {
-        const principalPayment = Math.min(pool.borrow, available);
-        pool.borrow -= principalPayment;
-        available -= principalPayment;
-        payment += principalPayment;
-      }
-
-      pool.cash = available;
-
-      if (payment > 0) {
-        cashPool.cash += payment;
-        dailyActivity.CP += payment;
-        repaidToday += payment;
-      }
-    }
-
-    for (const pool of pools) {
-      if (pool.cash > 0) {
-        const idleInterest = pool.cash * dailyIdleRate;
-        pool.interestEarned = idleInterest;
-        pendingPoolInterest[pool.key] = idleInterest;
-        dayInterest[pool.key] -= idleInterest;
-      } else {
-        pool.interestEarned = 0;
-        pendingPoolInterest[pool.key] = 0;
-      }
-    }
-
-    for (const pool of pools) {
-      const expectedRate = EXPECTED_RETURNS[pool.key] / 100 / 365;
-      const cashRate = params.idleRate / 100 / 365;
-      if (pool.cash > 0 && expectedRate > cashRate) {
-        const drag = pool.cash * (expectedRate - cashRate);
-        pool.cashDrag += drag;
-        dragToday += drag;
-      }
-    }
-
-    const totalOutstandingBorrow = pools.reduce(
-      (sum, pool) => sum + pool.borrow,
-      0
-    );
-    if (totalOutstandingBorrow > 0) {
-      const receivableInterest = totalOutstandingBorrow * dailyBorrowRate;
-      cashPool.interestReceivable += receivableInterest;
-      dayInterest.CP += receivableInterest;
-    }
-
-    if (cashPool.cash > 0) {
-      const idleInterest = cashPool.cash * dailyIdleRate;
-      cashPool.interestEarned = idleInterest;
-      pendingCashInterest = idleInterest;
-      totalInterestEarned += idleInterest;
-      dayInterest.CP += idleInterest;
-    } else {
-      pendingCashInterest = 0;
-    }
-
-    if (scenarioId === "internal") {
-      const spread = (AVERAGE_EXPECTED_RETURN - params.idleRate) / 100 / 365;
-      if (spread > 0) {
-        const drag = DEFAULT_PARAMS.cashPool * spread;
-        cashPool.cashDrag += drag;
-        dragToday += drag;
-      }
-    }
-
-    totalBorrowed += borrowedToday;
-    totalRepaid += repaidToday;
-
-    records.push({
-      day,
-      pools: pools.map((pool) => ({ ...pool })),
-      cashPool: { ...cashPool },
-      activity: { ...dailyActivity },
-      totals: {
-        borrowed: borrowedToday,
-        repaid: repaidToday,
-        interestByPool: { ...dayInterest },
-        drag: dragToday,
-      },
-    });
-  }
-
-  const summary: SimulationSummary = {
-    privatePools: pools.map((pool) => ({
-      key: pool.key,
-      name: pool.name,
-      interestPaid: pool.interestPaid,
-      endingCash: pool.cash,
-      endingBorrow: pool.borrow,
-    })),
-    cashPool: {
-      interestEarned: totalInterestEarned,
-      endingCash: cashPool.cash,
-    },
-    totals: {
-      borrowed: totalBorrowed,
-      repaid: totalRepaid,
-      days: params.days,
-    },
-  };
-
-  return { records, summary };
-}
-
-function formatMillions(value: number, digits = 1) {
-  return formatCurrency(value, digits, "M");
+function LineCell({
+  value,
+  emptyLabel,
+  format = (amount) => formatMillions(amount, 1),
+  alert = false,
+}: {
+  value: number;
+  /** Shown as "—" with this tooltip when the value is zero. */
+  emptyLabel?: string;
+  format?: (amount: number) => string;
+  alert?: boolean;
+}) {
+  const empty = emptyLabel !== undefined && value === 0;
+  return (
+    <td
+      className={`cell-highlight px-2 py-2 text-center ${
+        alert && value > 0 ? "font-semibold text-rose-600" : ""
+      }`}
+      style={alert && value > 0 ? undefined : { color: LINE_COLOR }}
+    >
+      <span
+        className="tooltip-wrapper"
+        data-tooltip={empty ? emptyLabel : formatFullDollars(value)}
+      >
+        {empty ? "—" : format(value)}
+      </span>
+    </td>
+  );
 }
 
-function formatThousands(value: number, digits = 1) {
-  return formatCurrency(value * 1000, digits, "K");
+function describeRate(rate: number, basis: RateBasis, baseRate: string) {
+  if (!basis.floating) return formatPercent(rate);
+  const sign = basis.spread < 0 ? "−" : "+";
+  return `${baseRate} ${sign} ${Math.abs(basis.spread)}bps`;
 }
 
-function formatFullDollars(value: number) {
-  const dollars = Math.abs(value * 1_000_000);
-  const formatted = dollars.toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
+function describePeriod(
+  record: PeriodRecord,
+  period: RollupPeriod,
+  pools: PoolConfig[]
+) {
+  if (period !== "daily") {
+    const dates = `${formatDate(record.startDate)} – ${formatDate(
+      record.date
+    )} • ${record.businessDays} business days`;
+    const alerts = [
+      ...new Set(record.alerts.map((alert) => ALERT_LABELS[alert.kind])),
+    ];
+    const label =
+      alerts.length === 0 ? dates : `${dates} • ${alerts.join(", ")}`;
+    if (record.shortfalls.length === 0) return label;
+    const largest = Math.max(
+      ...record.shortfalls.map((shortfall) => shortfall.amount)
+    );
+    return `${label} • ${
+      record.shortfalls.length
+    } unfunded deficits, largest ${formatMillions(largest, 1)}`;
+  }
+  const rate = `base rate ${formatPercent(record.rates.base, 2)}`;
+  const label = record.businessDay
+    ? `Day ${record.day} • ${rate}`
+    : `Day ${record.day} • ${rate} • ${
+        record.holiday ?? "Weekend"
+      }, flows settle next business day`;
+  const warnings = record.alerts
+    .filter((alert) => alert.kind !== "unfundedDeficit")
+    .map((alert) => describeAlert(alert, pools));
+  if (record.shortfalls.length === 0) {
+    return [label, ...warnings].join(" • ");
+  }
+  const details = record.shortfalls.map((shortfall) => {
+    const name =
+      pools.find((pool) => pool.key === shortfall.pool)?.name ?? shortfall.pool;
+    return `${name} short ${formatMillions(shortfall.amount, 1)} (${
+      shortfall.limit
+    })`;
   });
-  return value < 0 ? `(${formatted})` : formatted;
-}
-
-function sampleNormalRange(min: number, max: number) {
-  const mean = (min + max) / 2;
-  const stdDev = (max - min) / 6;
-  let u = 0;
-  let v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-  const value = mean + z * stdDev;
-  return Math.min(Math.max(value, min), max);
-}
-
-function withAlpha(hex: string, alpha: number) {
-  const normalized = hex.replace("#", "");
-  const bigint = Number.parseInt(normalized.padEnd(6, "0").slice(0, 6), 16);
-  const r = (bigint >> 16) & 255;
-  const g = (bigint >> 8) & 255;
-  const b = bigint & 255;
-  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  return [label, ...details, ...warnings].join(" • ");
 }
 
-function formatCurrency(value: number, digits: number, suffix: string) {
-  const abs = Math.abs(value);
-  const formatted = `$${abs.toFixed(digits)}${suffix}`;
-  return value < 0 ? `(${formatted})` : formatted;
-}
-
-function generateDayEvents(days: number): DayEvent[] {
-  return Array.from({ length: days }, () => {
-    const entry: DayEvent = { PE: 0, PC: 0, PRE: 0 };
-    POOL_CONFIGS.forEach((pool) => {
-      const roll = Math.random();
-      if (roll < 0.1) {
-        entry[pool.key] = -sampleNormalRange(0.5, 7);
-      } else if (roll < 0.17) {
-        entry[pool.key] = sampleNormalRange(0.5, 7);
-      } else {
-        entry[pool.key] = 0;
-      }
-    });
-    return entry;
-  });
+function writeSeedToUrl(seed: number) {
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", String(seed));
+  window.history.replaceState(null, "", url);
 }
@@ -0,0 +1,33 @@
+import {
+  runMonteCarlo,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+} from "@/lib/simulation";
+
+export type MonteCarloRequest = Omit<MonteCarloOptions, "onProgress">;
+
+export type MonteCarloResponse =
+  | { type: "progress"; completed: number; total: number }
+  | { type: "result"; result: MonteCarloResult }
+  | { type: "error"; message: string };
+
+function respond(message: MonteCarloResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const request = event.data;
+  try {
+    const result = runMonteCarlo({
+      ...request,
+      onProgress: (completed) =>
+        respond({ type: "progress", completed, total: request.paths }),
+    });
+    respond({ type: "result", result });
+  } catch (error) {
+    respond({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
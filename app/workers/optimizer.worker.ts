@@ -0,0 +1,32 @@
+import {
+  runOptimizer,
+  type OptimizerOptions,
+  type OptimizerResult,
+} from "@/lib/simulation";
+
+export type OptimizerRequest = Omit<OptimizerOptions, "onProgress">;
+
+export type OptimizerResponse =
+  | { type: "progress"; completed: number; total: number }
+  | { type: "result"; result: OptimizerResult }
+  | { type: "error"; message: string };
+
+function respond(message: OptimizerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<OptimizerRequest>) => {
+  try {
+    const result = runOptimizer({
+      ...event.data,
+      onProgress: (completed, total) =>
+        respond({ type: "progress", completed, total }),
+    });
+    respond({ type: "result", result });
+  } catch (error) {
+    respond({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
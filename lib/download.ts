@@ -0,0 +1,24 @@
+/** Saves `content` as a file through a temporary object URL. */
+export function downloadFile(
+  filename: string,
+  content: BlobPart,
+  type = "application/json"
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Lower-case, dash-separated form of `name` for use in file names. */
+export function toFileSlug(name: string) {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "export"
+  );
+}
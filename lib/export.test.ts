@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { scenarioSummaryTable, toCsv } from "@/lib/export";
+import {
+  DEFAULT_SCENARIOS,
+  createRandom,
+  generateDayEvents,
+  runSimulation,
+} from "@/lib/simulation";
+
+describe("toCsv", () => {
+  it("prefixes text that a spreadsheet would run as a formula", () => {
+    const csv = toCsv({
+      name: "Names",
+      headers: ["=Name", "Amount"],
+      rows: [
+        ['=HYPERLINK("http://x")', -5],
+        ["+1", 2.5],
+        ["-cmd", 0],
+        ["@SUM(A1)", 1],
+        ["Plain", -0.25],
+      ],
+      dollarColumns: [1],
+    });
+    expect(csv.split("\r\n")).toEqual([
+      "'=Name,Amount",
+      '"\'=HYPERLINK(""http://x"")",-5',
+      "'+1,2.5",
+      "'-cmd,0",
+      "'@SUM(A1),1",
+      "Plain,-0.25",
+      "",
+    ]);
+  });
+
+  it("escapes user-entered scenario names in the summary", () => {
+    const scenario = { ...DEFAULT_SCENARIOS[0], name: "=1+1" };
+    const events = generateDayEvents(scenario.params.days, createRandom(1));
+    const csv = toCsv(
+      scenarioSummaryTable([scenario], {
+        [scenario.id]: runSimulation(scenario.params, events),
+      })
+    );
+    expect(csv.split("\r\n")[1].startsWith("'=1+1,")).toBe(true);
+  });
+});
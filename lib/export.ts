@@ -0,0 +1,334 @@
+import {
+  ALERT_LABELS,
+  CASH_POOL_KEY,
+  JOURNAL_ENTRY_LABELS,
+  annualizedDrag,
+  rollUpRecords,
+  totalDrag,
+  type JournalEntry,
+  type PeriodRecord,
+  type PoolConfig,
+  type PoolState,
+  type RollupPeriod,
+  type ScenarioConfig,
+  type ScenarioId,
+  type SimulationResult,
+} from "@/lib/simulation";
+
+/**
+ * A sheet of exported values. Money columns hold full-precision dollars
+ * rather than the rounded $ millions shown in the tables.
+ */
+export interface ExportTable {
+  name: string;
+  headers: string[];
+  rows: (string | number)[][];
+  /** Indexes of the columns holding dollar amounts. */
+  dollarColumns: number[];
+}
+
+interface Column<T> {
+  header: string;
+  value: (row: T) => string | number;
+  dollars?: boolean;
+}
+
+const DOLLARS = 1_000_000;
+
+const POOL_COLUMNS: {
+  label: string;
+  value: (pool: PoolState, record: PeriodRecord) => number;
+}[] = [
+  { label: "Cash", value: (pool) => pool.cash },
+  { label: "Activity", value: (pool, record) => record.activity[pool.key] },
+  { label: "Borrow", value: (pool) => pool.borrow },
+  { label: "Line Borrow", value: (pool) => pool.lineBorrow },
+  { label: "Interest Owed", value: (pool) => pool.interestOwed },
+  { label: "Interest Accrued", value: (pool) => pool.interestAccrued },
+  { label: "Interest Earned", value: (pool) => pool.interestEarned },
+  {
+    label: "Idle Interest Accrued",
+    value: (pool) => pool.idleInterestAccrued,
+  },
+  { label: "Cash Drag", value: (pool) => pool.cashDrag },
+  { label: "Borrow Drag", value: (pool) => pool.borrowDrag },
+];
+
+/**
+ * One row per simulated day, or per month, quarter or year when `period`
+ * rolls the days up, with every cash pool, line and pool column.
+ */
+export function dailyRecordsTable(
+  scenario: ScenarioConfig,
+  result: SimulationResult,
+  pools: PoolConfig[],
+  period: RollupPeriod = "daily"
+): ExportTable {
+  const periodColumns: Column<PeriodRecord>[] =
+    period === "daily"
+      ? [
+          { header: "Day", value: (record) => record.day },
+          { header: "Date", value: (record) => record.date },
+          {
+            header: "Business Day",
+            value: (record) => (record.businessDay ? "Yes" : "No"),
+          },
+        ]
+      : [
+          { header: "Period", value: (record) => record.period },
+          { header: "Start Date", value: (record) => record.startDate },
+          { header: "End Date", value: (record) => record.date },
+          { header: "Business Days", value: (record) => record.businessDays },
+        ];
+  const columns: Column<PeriodRecord>[] = [
+    ...periodColumns,
+    { header: "Base Rate %", value: (record) => record.rates.base },
+    { header: "Borrow Rate %", value: (record) => record.rates.borrow },
+    { header: "Line Rate %", value: (record) => record.rates.line },
+    { header: "Idle Rate %", value: (record) => record.rates.idle },
+    money("Cash Pool Cash", (record) => record.cashPool.cash),
+    money("Cash Pool Activity", (record) => record.activity[CASH_POOL_KEY]),
+    money(
+      "Cash Pool Interest Earned",
+      (record) => record.cashPool.interestEarned
+    ),
+    money(
+      "Cash Pool Idle Interest Accrued",
+      (record) => record.cashPool.idleInterestAccrued
+    ),
+    money(
+      "Cash Pool Interest Receivable",
+      (record) => record.cashPool.interestReceivable
+    ),
+    money("Cash Pool Cash Drag", (record) => record.cashPool.cashDrag),
+    money("Line Draw", (record) => record.totals.borrowedFromLine),
+    money("Line Repaid", (record) => record.totals.repaidToLine),
+    money("Line Balance", (record) => record.totals.lineBalance),
+    money("Line Interest", (record) => record.totals.lineInterest),
+    money("Undrawn Fee", (record) => record.totals.undrawnFee),
+    money("Upfront Fee", (record) => record.totals.upfrontFee),
+    money("Shortfall", (record) => record.totals.shortfall),
+    money(
+      "Capitalized Interest",
+      (record) => record.totals.capitalizedInterest
+    ),
+    ...pools.flatMap((pool) =>
+      POOL_COLUMNS.map((column) =>
+        money(`${pool.name} ${column.label}`, (record: PeriodRecord) => {
+          const state = record.pools.find((entry) => entry.key === pool.key);
+          return state ? column.value(state, record) : 0;
+        })
+      )
+    ),
+    money("Drag", (record) => record.totals.drag),
+    {
+      header: "Alerts",
+      value: (record) =>
+        [
+          ...new Set(record.alerts.map((alert) => ALERT_LABELS[alert.kind])),
+        ].join("; "),
+    },
+  ];
+  return toTable(scenario.name, columns, rollUpRecords(result.records, period));
+}
+
+/** Key totals for each scenario, matching the summary cards. */
+export function scenarioSummaryTable(
+  scenarios: ScenarioConfig[],
+  results: Record<ScenarioId, SimulationResult>
+): ExportTable {
+  const rows = scenarios
+    .filter((scenario) => results[scenario.id])
+    .map((scenario) => ({ scenario, result: results[scenario.id] }));
+  type Row = (typeof rows)[number];
+  const columns: Column<Row>[] = [
+    { header: "Scenario", value: ({ scenario }) => scenario.name },
+    { header: "Funding", value: ({ scenario }) => scenario.params.funding },
+    { header: "Days", value: ({ result }) => result.summary.totals.days },
+    money("Total Drag", ({ result }) => totalDrag(result)),
+    money("Annualized Drag", ({ result }) => annualizedDrag(result)),
+    money("Borrowed", ({ result }) => result.summary.totals.borrowed),
+    money(
+      "Borrowed From Cash Pool",
+      ({ result }) => result.summary.totals.borrowedFromCashPool
+    ),
+    money(
+      "Borrowed From Line",
+      ({ result }) => result.summary.totals.borrowedFromLine
+    ),
+    money("Repaid", ({ result }) => result.summary.totals.repaid),
+    money(
+      "Cash Pool Interest Earned",
+      ({ result }) => result.summary.cashPool.interestEarned
+    ),
+    money(
+      "Cash Pool Ending Cash",
+      ({ result }) => result.summary.cashPool.endingCash
+    ),
+    money(
+      "Line Interest Paid",
+      ({ result }) => result.summary.line.interestPaid
+    ),
+    money("Undrawn Fees", ({ result }) => result.summary.line.undrawnFees),
+    money("Upfront Fees", ({ result }) => result.summary.line.upfrontFees),
+    {
+      header: "Shortfall Days",
+      value: ({ result }) => result.summary.line.shortfallDays,
+    },
+    money("Peak Shortfall", ({ result }) => result.summary.line.peakShortfall),
+    money(
+      "Unsettled Flows",
+      ({ result }) => result.summary.totals.unsettledFlows
+    ),
+  ];
+  return toTable("Summary", columns, rows);
+}
+
+/** Period and cumulative drag per scenario, as in the comparison table. */
+export function dailyDragTable(
+  scenarios: ScenarioConfig[],
+  results: Record<ScenarioId, SimulationResult>,
+  period: RollupPeriod = "daily"
+): ExportTable {
+  const rolled = scenarios.map((scenario) =>
+    results[scenario.id]
+      ? rollUpRecords(results[scenario.id].records, period)
+      : []
+  );
+  const dated = rolled.find((records) => records.length > 0) ?? [];
+  const headers = period === "daily" ? ["Day", "Date"] : ["Period", "End Date"];
+  const dollarColumns: number[] = [];
+  for (const scenario of scenarios) {
+    dollarColumns.push(headers.length, headers.length + 1);
+    headers.push(`${scenario.name} Drag`, `${scenario.name} Cumulative`);
+  }
+  const running = scenarios.map(() => 0);
+  const rows = dated.map((record, index) => {
+    const row: (string | number)[] = [
+      period === "daily" ? record.day : record.period,
+      record.date,
+    ];
+    scenarios.forEach((_, position) => {
+      const drag = rolled[position][index]?.totals.drag ?? 0;
+      running[position] += drag;
+      row.push(drag * DOLLARS, running[position] * DOLLARS);
+    });
+    return row;
+  });
+  const label = `${period[0].toUpperCase()}${period.slice(1)}`;
+  return { name: `${label} Drag`, headers, rows, dollarColumns };
+}
+
+/**
+ * Intercompany loan postings, one row per entry, with the running balances
+ * after each.
+ */
+export function journalTable(
+  scenario: ScenarioConfig,
+  entries: JournalEntry[],
+  pools: PoolConfig[]
+): ExportTable {
+  const columns: Column<JournalEntry>[] = [
+    { header: "Entry", value: (entry) => entry.sequence },
+    { header: "Day", value: (entry) => entry.day },
+    { header: "Date", value: (entry) => entry.date },
+    { header: "Type", value: (entry) => JOURNAL_ENTRY_LABELS[entry.kind] },
+    {
+      header: "Pool",
+      value: (entry) =>
+        entry.pool === CASH_POOL_KEY
+          ? "Cash Pool"
+          : pools.find((pool) => pool.key === entry.pool)?.name ?? entry.pool,
+    },
+    money("Amount", (entry) => entry.amount),
+    money("Principal", (entry) => entry.principal),
+    money("Interest Owed", (entry) => entry.interestOwed),
+    money("Cash Pool Balance", (entry) => entry.cashPool),
+  ];
+  return toTable(`${scenario.name} Journal`, columns, entries);
+}
+
+/** RFC 4180 CSV with numbers written at full precision. */
+export function toCsv(table: ExportTable) {
+  const lines = [table.headers, ...table.rows].map((row) =>
+    row.map(csvField).join(",")
+  );
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Builds an .xlsx workbook with one sheet per table. The spreadsheet
+ * library is loaded on demand so it stays out of the main bundle.
+ */
+export async function toWorkbook(tables: ExportTable[]) {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const usedNames = new Set<string>();
+  for (const table of tables) {
+    const sheet = workbook.addWorksheet(sheetName(table.name, usedNames), {
+      views: [{ state: "frozen", xSplit: 1, ySplit: 1 }],
+    });
+    sheet.addRow(table.headers).font = { bold: true };
+    sheet.addRows(table.rows);
+    table.headers.forEach((header, index) => {
+      const column = sheet.getColumn(index + 1);
+      column.width = Math.max(10, Math.min(header.length + 2, 32));
+      if (table.dollarColumns.includes(index)) {
+        column.numFmt = "#,##0.00;(#,##0.00)";
+      }
+    });
+  }
+  return workbook.xlsx.writeBuffer();
+}
+
+function money<T>(header: string, value: (row: T) => number): Column<T> {
+  return {
+    header: `${header} ($)`,
+    value: (row) => value(row) * DOLLARS,
+    dollars: true,
+  };
+}
+
+function toTable<T>(
+  name: string,
+  columns: Column<T>[],
+  rows: T[]
+): ExportTable {
+  return {
+    name,
+    headers: columns.map((column) => column.header),
+    rows: rows.map((row) => columns.map((column) => column.value(row))),
+    dollarColumns: columns.flatMap((column, index) =>
+      column.dollars ? [index] : []
+    ),
+  };
+}
+
+/**
+ * Quotes a CSV field where needed. Text starting with a formula character
+ * is prefixed with `'` so spreadsheets show user-entered names such as
+ * "=SUM(A1)" as text instead of evaluating them.
+ */
+function csvField(value: string | number) {
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Excel sheet names are unique, at most 31 characters and avoid []:*?/\ */
+function sheetName(name: string, usedNames: Set<string>) {
+  const base =
+    name
+      .replace(/[[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || "Sheet";
+  let candidate = base;
+  for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix++) {
+    const tag = ` (${suffix})`;
+    candidate = `${base.slice(0, 31 - tag.length)}${tag}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
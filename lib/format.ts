@@ -0,0 +1,47 @@
+export function formatMillions(value: number, digits = 1) {
+  return formatCurrency(value, digits, "M");
+}
+
+export function formatThousands(value: number, digits = 1) {
+  return formatCurrency(value * 1000, digits, "K");
+}
+
+export function formatPercent(value: number, digits = 1) {
+  return `${value.toFixed(digits)}%`;
+}
+
+export function formatFullDollars(value: number) {
+  const dollars = Math.abs(value * 1_000_000);
+  const formatted = dollars.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+  return value < 0 ? `(${formatted})` : formatted;
+}
+
+/** Formats an ISO date as e.g. "Thu, Jan 2, 2025". */
+export function formatDate(iso: string) {
+  return new Date(`${iso}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function withAlpha(hex: string, alpha: number) {
+  const normalized = hex.replace("#", "");
+  const bigint = Number.parseInt(normalized.padEnd(6, "0").slice(0, 6), 16);
+  const r = (bigint >> 16) & 255;
+  const g = (bigint >> 8) & 255;
+  const b = bigint & 255;
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+function formatCurrency(value: number, digits: number, suffix: string) {
+  const abs = Math.abs(value);
+  const formatted = `$${abs.toFixed(digits)}${suffix}`;
+  return value < 0 ? `(${formatted})` : formatted;
+}
@@ -0,0 +1,61 @@
+import {
+  loadScenarioSet,
+  toScenarioSetFile,
+  type ScenarioSet,
+  type ScenarioSetFile,
+  type ScenarioSetLoadResult,
+} from "@/lib/simulation";
+
+/** A scenario set saved in this browser's local storage. */
+export interface SavedScenarioSet {
+  id: string;
+  name: string;
+  savedAt: string;
+  file: ScenarioSetFile;
+}
+
+const STORAGE_KEY = "cash-drag:scenario-sets";
+
+export function listSavedSets(): SavedScenarioSet[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveScenarioSet(set: ScenarioSet): SavedScenarioSet[] {
+  const file = toScenarioSetFile(set);
+  const entry: SavedScenarioSet = {
+    id: `set-${Date.now().toString(36)}`,
+    name: set.name,
+    savedAt: file.savedAt,
+    file,
+  };
+  return writeSavedSets([entry, ...listSavedSets()]);
+}
+
+export function renameSavedSet(id: string, name: string) {
+  return writeSavedSets(
+    listSavedSets().map((entry) =>
+      entry.id === id
+        ? { ...entry, name, file: { ...entry.file, name } }
+        : entry
+    )
+  );
+}
+
+export function deleteSavedSet(id: string) {
+  return writeSavedSets(listSavedSets().filter((entry) => entry.id !== id));
+}
+
+/** Loads a saved entry through the same migration path as imported files. */
+export function openSavedSet(entry: SavedScenarioSet): ScenarioSetLoadResult {
+  return loadScenarioSet(entry.file);
+}
+
+function writeSavedSets(entries: SavedScenarioSet[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  return entries;
+}
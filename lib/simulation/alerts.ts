@@ -0,0 +1,146 @@
+import type {
+  AlertKind,
+  AlertThresholds,
+  CashPoolState,
+  DailyRecord,
+  LiquidityAlert,
+  PoolKey,
+  PoolState,
+} from "./types";
+
+/** Consecutive days on which the same alert was raised. */
+export interface AlertEpisode {
+  kind: AlertKind;
+  pool?: PoolKey;
+  startDay: number;
+  endDay: number;
+  startDate: string;
+  endDate: string;
+  /** Largest amount over the episode, in $ millions. */
+  peak: number;
+}
+
+/** Balances below this are rounding noise rather than money owed. */
+const EPSILON = 1e-9;
+
+export const ALERT_LABELS: Record<AlertKind, string> = {
+  cashPoolBreach: "Cash pool overdrawn",
+  borrowLimitBreach: "Borrow limit exceeded",
+  unfundedDeficit: "Unfunded deficit",
+  slowRepayment: "Slow repayment",
+  interestPastDue: "Interest past due",
+};
+
+/**
+ * Alerts that make a day a shortfall day: a deficit left unfunded, or the
+ * cash pool overdrawn under any funding mode.
+ */
+export const SHORTFALL_ALERTS: AlertKind[] = [
+  "cashPoolBreach",
+  "unfundedDeficit",
+];
+
+/**
+ * Creates a check to call once per day, after the day's flows, that returns
+ * the alerts raised by the end-of-day balances. It tracks how long each pool
+ * has been in debt and how long its interest has been due, so one monitor
+ * serves exactly one run.
+ */
+export function createAlertMonitor(thresholds: AlertThresholds) {
+  const borrowingSince: Record<PoolKey, number> = {};
+  const dueSince: Record<PoolKey, number> = {};
+
+  return (
+    day: number,
+    pools: PoolState[],
+    cashPool: CashPoolState
+  ): LiquidityAlert[] => {
+    const alerts: LiquidityAlert[] = [];
+    if (cashPool.cash < -EPSILON) {
+      alerts.push({ kind: "cashPoolBreach", amount: -cashPool.cash });
+    }
+    const borrow = pools.reduce((sum, pool) => sum + pool.borrow, 0);
+    if (borrow > thresholds.borrowLimit + EPSILON) {
+      alerts.push({
+        kind: "borrowLimitBreach",
+        amount: borrow - thresholds.borrowLimit,
+      });
+    }
+    for (const pool of pools) {
+      // Raised on every day the pool ends below zero, weekends included,
+      // not only on the business days a draw is refused.
+      if (pool.cash < -EPSILON) {
+        alerts.push({
+          kind: "unfundedDeficit",
+          pool: pool.key,
+          amount: -pool.cash,
+        });
+      }
+      if (pool.borrow > EPSILON) {
+        if (!(pool.key in borrowingSince)) borrowingSince[pool.key] = day;
+        const days = day - borrowingSince[pool.key] + 1;
+        if (days > thresholds.repaymentDays) {
+          alerts.push({
+            kind: "slowRepayment",
+            pool: pool.key,
+            amount: pool.borrow,
+            days,
+          });
+        }
+      } else {
+        delete borrowingSince[pool.key];
+      }
+
+      const due = pool.interestOwed - pool.interestAccrued;
+      if (due > EPSILON) {
+        if (!(pool.key in dueSince)) dueSince[pool.key] = day;
+        const days = day - dueSince[pool.key] + 1;
+        if (days > thresholds.interestGraceDays) {
+          alerts.push({
+            kind: "interestPastDue",
+            pool: pool.key,
+            amount: due,
+            days,
+          });
+        }
+      } else {
+        delete dueSince[pool.key];
+      }
+    }
+    return alerts;
+  };
+}
+
+/**
+ * Groups the alerts of a run into episodes of consecutive days with the
+ * same kind and pool, in order of their first day.
+ */
+export function alertEpisodes(records: DailyRecord[]): AlertEpisode[] {
+  const episodes: AlertEpisode[] = [];
+  const open = new Map<string, AlertEpisode>();
+  for (const record of records) {
+    for (const alert of record.alerts) {
+      const pool = "pool" in alert ? alert.pool : undefined;
+      const key = `${alert.kind}:${pool ?? ""}`;
+      const episode = open.get(key);
+      if (episode && episode.endDay === record.day - 1) {
+        episode.endDay = record.day;
+        episode.endDate = record.date;
+        episode.peak = Math.max(episode.peak, alert.amount);
+        continue;
+      }
+      const next: AlertEpisode = {
+        kind: alert.kind,
+        ...(pool === undefined ? {} : { pool }),
+        startDay: record.day,
+        endDay: record.day,
+        startDate: record.date,
+        endDate: record.date,
+        peak: alert.amount,
+      };
+      episodes.push(next);
+      open.set(key, next);
+    }
+  }
+  return episodes;
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  DRAG_COMPONENTS,
+  attributeDrag,
+  compareAttributions,
+  type DragAttribution,
+  type DragComponent,
+} from "./attribution";
+import { DEFAULT_PARAMS, DEFAULT_POOLS } from "./constants";
+import { runSimulation } from "./engine";
+import { totalDrag } from "./metrics";
+import type {
+  CalendarSettings,
+  DayEvent,
+  PoolConfig,
+  SimulationParams,
+} from "./types";
+
+// As in the engine tests: 3.65% on ACT/365 accrues exactly 0.0001 a day and
+// 7.3% a year 0.0002, so every expected figure can be worked out by hand.
+const RATE = 3.65;
+const DAILY = 0.0001;
+
+const CALENDAR: CalendarSettings = {
+  startDate: "2025-01-06",
+  calendar: "weekends",
+  holidays: [],
+};
+
+const POOL: PoolConfig = {
+  ...DEFAULT_POOLS[0],
+  key: "A",
+  name: "Pool A",
+  expectedReturn: 7.3,
+};
+
+function params(overrides: Partial<SimulationParams> = {}): SimulationParams {
+  return {
+    ...DEFAULT_PARAMS,
+    funding: "internal",
+    startingCash: { A: 0 },
+    cashPool: 100,
+    borrowRate: RATE,
+    lineRate: RATE,
+    idleRate: RATE,
+    dayCounts: { borrow: "ACT/365", line: "ACT/365", idle: "ACT/365" },
+    days: 1,
+    ...overrides,
+  };
+}
+
+function attribute(
+  overrides: Partial<SimulationParams>,
+  events: number[],
+  pool: PoolConfig = POOL
+) {
+  const runParams = params(overrides);
+  const dayEvents: DayEvent[] = events.map((amount) => ({ A: amount }));
+  const result = runSimulation(runParams, dayEvents, {
+    pools: [pool],
+    calendar: CALENDAR,
+  });
+  return { result, attribution: attributeDrag(runParams, result) };
+}
+
+function componentSum(attribution: DragAttribution) {
+  return DRAG_COMPONENTS.reduce(
+    (sum, component) => sum + attribution.components[component],
+    0
+  );
+}
+
+const prefunded = {
+  funding: "prefunded" as const,
+  startingCash: { A: 100 },
+  cashPool: 0,
+};
+
+describe("attributeDrag", () => {
+  it("splits idle pool cash into forgone return and the interest it earned", () => {
+    const { result, attribution } = attribute(prefunded, [0]);
+    // 100 forgoes 7.3% and earns 3.65%: 0.02 forgone, 0.01 credited back.
+    expect(attribution.components.poolIdleCash).toBeCloseTo(200 * DAILY, 12);
+    expect(attribution.components.idleInterest).toBeCloseTo(-100 * DAILY, 12);
+    expect(attribution.pools.A.idleInterest).toBeCloseTo(-100 * DAILY, 12);
+    expect(attribution.total).toBeCloseTo(100 * DAILY, 12);
+    expect(componentSum(attribution)).toBeCloseTo(totalDrag(result), 12);
+  });
+
+  it("credits idle interest that beats the expected return without adding drag", () => {
+    const { result, attribution } = attribute(prefunded, [0], {
+      ...POOL,
+      expectedReturn: RATE / 2,
+    });
+    expect(totalDrag(result)).toBe(0);
+    expect(attribution.components.poolIdleCash).toBeCloseTo(100 * DAILY, 12);
+    expect(attribution.components.idleInterest).toBeCloseTo(-100 * DAILY, 12);
+    expect(attribution.total).toBeCloseTo(0, 12);
+  });
+
+  it("charges the reserve and the interest on what the pools borrow from it", () => {
+    const { result, attribution } = attribute({}, [-10]);
+    // The reserve of 100 forgoes the 3.65% spread over the idle rate and the
+    // 90 left after the draw earns the idle rate.
+    expect(attribution.components.borrowInterest).toBeCloseTo(10 * DAILY, 12);
+    expect(attribution.cashPool.cashPoolIdleCash).toBeCloseTo(
+      100 * DAILY + 90 * DAILY,
+      12
+    );
+    expect(attribution.cashPool.idleInterest).toBeCloseTo(-90 * DAILY, 12);
+    expect(attribution.total).toBeCloseTo(110 * DAILY, 12);
+    expect(componentSum(attribution)).toBeCloseTo(totalDrag(result), 12);
+  });
+
+  it("splits line interest into borrow interest and the spread over borrowRate", () => {
+    const { result, attribution } = attribute(
+      {
+        funding: "loc",
+        cashPool: 0,
+        lineRate: 2 * RATE,
+        facility: {
+          ...DEFAULT_PARAMS.facility,
+          commitment: 10,
+          undrawnFee: 0,
+          upfrontFee: RATE,
+          tenor: 1,
+        },
+      },
+      [-10]
+    );
+    expect(attribution.components.borrowInterest).toBeCloseTo(10 * DAILY, 12);
+    expect(attribution.components.lineSpread).toBeCloseTo(10 * DAILY, 12);
+    // 3.65% of the 10 commitment amortised over a year.
+    expect(attribution.facility.fees).toBeCloseTo(10 * DAILY, 12);
+    expect(attribution.total).toBeCloseTo(30 * DAILY, 12);
+    expect(componentSum(attribution)).toBeCloseTo(totalDrag(result), 12);
+  });
+});
+
+describe("compareAttributions", () => {
+  it("walks from one run's total to the other's in steps that add up", () => {
+    const from = attribute(prefunded, [0]).attribution;
+    const to = attribute({}, [-10]).attribution;
+    const comparison = compareAttributions(from, to);
+    expect(comparison.from).toBeCloseTo(100 * DAILY, 12);
+    expect(comparison.to).toBeCloseTo(110 * DAILY, 12);
+    expect(
+      comparison.steps.reduce((sum, step) => sum + step.change, 0)
+    ).toBeCloseTo(comparison.to - comparison.from, 12);
+
+    const step = (component: DragComponent) =>
+      comparison.steps.find((entry) => entry.component === component);
+    expect(step("poolIdleCash")?.pools.A).toBeCloseTo(-200 * DAILY, 12);
+    expect(step("cashPoolIdleCash")?.cashPool).toBeCloseTo(190 * DAILY, 12);
+    expect(step("idleInterest")?.change).toBeCloseTo(10 * DAILY, 12);
+    for (const entry of comparison.steps) {
+      const parts =
+        Object.values(entry.pools).reduce((sum, value) => sum + value, 0) +
+        entry.cashPool +
+        entry.facility;
+      expect(parts).toBeCloseTo(entry.change, 12);
+    }
+  });
+});
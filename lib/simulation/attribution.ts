@@ -0,0 +1,183 @@
+import { dayCountBasis } from "./calendar";
+import type { PoolKey, SimulationParams, SimulationResult } from "./types";
+
+/**
+ * A source of drag. The idle cash components are the drag on idle cash
+ * plus the interest it actually earned, which `idleInterest` credits back
+ * as a negative amount.
+ */
+export type DragComponent =
+  | "poolIdleCash"
+  | "cashPoolIdleCash"
+  | "borrowInterest"
+  | "lineSpread"
+  | "fees"
+  | "idleInterest";
+
+export type DragBreakdown = Record<DragComponent, number>;
+
+/** One run's total drag split by component and by where it arose. */
+export interface DragAttribution {
+  total: number;
+  components: DragBreakdown;
+  pools: Record<PoolKey, DragBreakdown>;
+  /** The reserve held by `internal` and `hybrid` funding. */
+  cashPool: DragBreakdown;
+  /** Commitment fees on the external line. */
+  facility: DragBreakdown;
+}
+
+/** How one component's drag changed between two runs, in $ millions. */
+export interface AttributionStep {
+  component: DragComponent;
+  /** Negative when the second run saves drag. */
+  change: number;
+  pools: Record<PoolKey, number>;
+  cashPool: number;
+  facility: number;
+}
+
+/**
+ * The steps that take the first run's total drag to the second's; they sum
+ * to `to - from`.
+ */
+export interface DragComparison {
+  from: number;
+  to: number;
+  steps: AttributionStep[];
+}
+
+export const DRAG_COMPONENTS: DragComponent[] = [
+  "poolIdleCash",
+  "cashPoolIdleCash",
+  "borrowInterest",
+  "lineSpread",
+  "fees",
+  "idleInterest",
+];
+
+export const DRAG_COMPONENT_LABELS: Record<DragComponent, string> = {
+  poolIdleCash: "Idle cash in pools",
+  cashPoolIdleCash: "Idle cash in the cash pool",
+  borrowInterest: "Borrow interest",
+  lineSpread: "LOC spread",
+  fees: "Facility fees",
+  idleInterest: "Interest earned on idle cash",
+};
+
+/**
+ * Splits a run's total drag by component. Interest on line draws counts as
+ * borrow interest up to what the same draws would have cost at the internal
+ * `borrowRate`, and as LOC spread beyond it.
+ */
+export function attributeDrag(
+  params: SimulationParams,
+  result: SimulationResult
+): DragAttribution {
+  const { records } = result;
+  const last = records[records.length - 1];
+  const atBorrowRate: Record<PoolKey, number> = {};
+  const previousLineDrag: Record<PoolKey, number> = {};
+  for (const record of records) {
+    const dailyBorrowRate =
+      record.rates.borrow / dayCountBasis(params.dayCounts.borrow);
+    const dailyLineRate =
+      record.rates.line / dayCountBasis(params.dayCounts.line);
+    for (const pool of record.pools) {
+      const lineInterest = pool.lineDrag - (previousLineDrag[pool.key] ?? 0);
+      previousLineDrag[pool.key] = pool.lineDrag;
+      atBorrowRate[pool.key] =
+        (atBorrowRate[pool.key] ?? 0) +
+        (dailyLineRate > 0
+          ? (lineInterest * dailyBorrowRate) / dailyLineRate
+          : 0);
+    }
+  }
+
+  const pools: Record<PoolKey, DragBreakdown> = {};
+  for (const pool of last?.pools ?? []) {
+    const lineCost = atBorrowRate[pool.key] ?? 0;
+    pools[pool.key] = {
+      ...emptyBreakdown(),
+      poolIdleCash: pool.cashDrag + pool.idleCredit,
+      borrowInterest: pool.borrowDrag - pool.lineDrag + lineCost,
+      lineSpread: pool.lineDrag - lineCost,
+      idleInterest: -pool.idleCredit,
+    };
+  }
+  const cashPool: DragBreakdown = {
+    ...emptyBreakdown(),
+    cashPoolIdleCash: last
+      ? last.cashPool.cashDrag + last.cashPool.idleCredit
+      : 0,
+    idleInterest: last ? -last.cashPool.idleCredit : 0,
+  };
+  const facility: DragBreakdown = {
+    ...emptyBreakdown(),
+    fees: last
+      ? last.facility.undrawnFeeDrag + last.facility.upfrontFeeDrag
+      : 0,
+  };
+
+  const components = emptyBreakdown();
+  for (const breakdown of [...Object.values(pools), cashPool, facility]) {
+    for (const component of DRAG_COMPONENTS) {
+      components[component] += breakdown[component];
+    }
+  }
+  return {
+    total: DRAG_COMPONENTS.reduce(
+      (sum, component) => sum + components[component],
+      0
+    ),
+    components,
+    pools,
+    cashPool,
+    facility,
+  };
+}
+
+/**
+ * Explains the difference in drag between two runs component by component,
+ * for every pool either run holds.
+ */
+export function compareAttributions(
+  from: DragAttribution,
+  to: DragAttribution
+): DragComparison {
+  const keys = [
+    ...new Set([...Object.keys(from.pools), ...Object.keys(to.pools)]),
+  ];
+  const poolValue = (
+    attribution: DragAttribution,
+    key: PoolKey,
+    component: DragComponent
+  ) => attribution.pools[key]?.[component] ?? 0;
+  return {
+    from: from.total,
+    to: to.total,
+    steps: DRAG_COMPONENTS.map((component) => ({
+      component,
+      change: to.components[component] - from.components[component],
+      pools: Object.fromEntries(
+        keys.map((key) => [
+          key,
+          poolValue(to, key, component) - poolValue(from, key, component),
+        ])
+      ),
+      cashPool: to.cashPool[component] - from.cashPool[component],
+      facility: to.facility[component] - from.facility[component],
+    })),
+  };
+}
+
+function emptyBreakdown(): DragBreakdown {
+  return {
+    poolIdleCash: 0,
+    cashPoolIdleCash: 0,
+    borrowInterest: 0,
+    lineSpread: 0,
+    fees: 0,
+    idleInterest: 0,
+  };
+}
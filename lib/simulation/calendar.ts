@@ -0,0 +1,149 @@
+import type { CalendarSettings, DayCount } from "./types";
+
+/** One simulated calendar day. */
+export interface CalendarDay {
+  /** ISO date, `YYYY-MM-DD`. */
+  date: string;
+  /** Whether flows, draws and repayments can settle on this date. */
+  businessDay: boolean;
+  /** Name of the holiday, when the date is one. */
+  holiday?: string;
+}
+
+const MS_PER_DAY = 86_400_000;
+
+/** Days in the year used to turn an annual rate into a daily one. */
+export function dayCountBasis(convention: DayCount) {
+  return convention === "ACT/360" ? 360 : 365;
+}
+
+/**
+ * Lays out `days` consecutive calendar days from `settings.startDate`,
+ * marking weekends, the holidays of the chosen calendar and any extra
+ * holidays as non-business days.
+ */
+export function buildCalendar(
+  settings: CalendarSettings,
+  days: number
+): CalendarDay[] {
+  const holidays = holidayMap(settings, days);
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(settings.startDate, index);
+    const holiday = holidays.get(date);
+    return {
+      date,
+      businessDay: !isWeekend(date) && holiday === undefined,
+      ...(holiday === undefined ? {} : { holiday }),
+    };
+  });
+}
+
+/** Whether `date` is neither a weekend nor a holiday under `settings`. */
+export function isBusinessDay(
+  date: string,
+  settings: Pick<CalendarSettings, "calendar" | "holidays">
+) {
+  return buildCalendar({ ...settings, startDate: date }, 1)[0].businessDay;
+}
+
+export function isIsoDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+}
+
+export function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string) {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      MS_PER_DAY
+  );
+}
+
+/** Calendar days from `startDate` to the same date `years` later. */
+export function horizonDays(startDate: string, years: number) {
+  const [year, month, day] = startDate.split("-").map(Number);
+  return daysBetween(startDate, isoDate(year + years, month, day));
+}
+
+/**
+ * US federal holidays for `year`, moved to the Friday before or the Monday
+ * after when they fall on a weekend.
+ */
+export function usHolidays(year: number) {
+  const fixed = (month: number, day: number, name: string) => ({
+    date: observed(isoDate(year, month, day)),
+    name,
+  });
+  const nth = (month: number, weekday: number, n: number, name: string) => ({
+    date: nthWeekday(year, month, weekday, n),
+    name,
+  });
+  return [
+    fixed(1, 1, "New Year's Day"),
+    nth(1, 1, 3, "Martin Luther King Jr. Day"),
+    nth(2, 1, 3, "Presidents' Day"),
+    nth(5, 1, -1, "Memorial Day"),
+    fixed(6, 19, "Juneteenth"),
+    fixed(7, 4, "Independence Day"),
+    nth(9, 1, 1, "Labor Day"),
+    nth(10, 1, 2, "Columbus Day"),
+    fixed(11, 11, "Veterans Day"),
+    nth(11, 4, 4, "Thanksgiving Day"),
+    fixed(12, 25, "Christmas Day"),
+  ];
+}
+
+function holidayMap(settings: CalendarSettings, days: number) {
+  const holidays = new Map<string, string>();
+  if (settings.calendar === "us") {
+    const first = Number(settings.startDate.slice(0, 4));
+    const last = Number(addDays(settings.startDate, days).slice(0, 4));
+    // The next year's New Year's Day can be observed on December 31.
+    for (let year = first; year <= last + 1; year++) {
+      for (const holiday of usHolidays(year)) {
+        holidays.set(holiday.date, holiday.name);
+      }
+    }
+  }
+  for (const date of settings.holidays) {
+    if (!holidays.has(date)) holidays.set(date, "Holiday");
+  }
+  return holidays;
+}
+
+function isWeekend(date: string) {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+function observed(date: string) {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+}
+
+/** The `n`th `weekday` (0 = Sunday) of a month; `n = -1` is the last. */
+function nthWeekday(year: number, month: number, weekday: number, n: number) {
+  if (n < 0) {
+    const lastDay = new Date(Date.UTC(year, month, 0));
+    const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+    return isoDate(year, month, lastDay.getUTCDate() - offset);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  return isoDate(year, month, day);
+}
+
+function isoDate(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
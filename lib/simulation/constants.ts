@@ -0,0 +1,193 @@
+import type {
+  BaseRateCurve,
+  BaseRateKind,
+  DayCount,
+  EventModel,
+  EventSettings,
+  FacilityTerms,
+  FundingMode,
+  PathSettings,
+  PoolConfig,
+  ScenarioConfig,
+  SettlementFrequency,
+  SimulationParams,
+  SizeDistribution,
+} from "./types";
+
+export const CASH_POOL_KEY = "CP";
+
+/**
+ * Largest gap, in $ millions (a dollar), that the cash walk and the journal
+ * tie-outs treat as rounding rather than a break.
+ */
+export const RECONCILIATION_TOLERANCE = 0.000001;
+
+export const DEFAULT_EVENT_SETTINGS: EventSettings = {
+  callProbability: 10,
+  distributionProbability: 7,
+  minSize: 0.5,
+  maxSize: 7,
+  sizeDistribution: "normal",
+};
+
+export const SIZE_DISTRIBUTIONS: SizeDistribution[] = [
+  "normal",
+  "uniform",
+  "lognormal",
+];
+
+export const DEFAULT_EVENT_MODEL: EventModel = {
+  correlations: {},
+  regime: {
+    enabled: false,
+    stressProbability: 1,
+    recoveryProbability: 5,
+    callMultiplier: 3,
+    distributionMultiplier: 0.5,
+  },
+};
+
+export const DEFAULT_POOLS: PoolConfig[] = [
+  {
+    key: "PE",
+    name: "Private Equity",
+    color: "#2563eb",
+    expectedReturn: 8.0,
+    returnVolatility: 0,
+    returnCorrelation: 0.8,
+    events: DEFAULT_EVENT_SETTINGS,
+  },
+  {
+    key: "PC",
+    name: "Private Credit",
+    color: "#0ea5e9",
+    expectedReturn: 8.2,
+    returnVolatility: 0,
+    returnCorrelation: 0.6,
+    events: DEFAULT_EVENT_SETTINGS,
+  },
+  {
+    key: "PRE",
+    name: "Private Real Estate",
+    color: "#f97316",
+    expectedReturn: 7.2,
+    returnVolatility: 0,
+    returnCorrelation: 0.7,
+    events: DEFAULT_EVENT_SETTINGS,
+  },
+];
+
+export const POOL_COLORS = [
+  "#2563eb",
+  "#0ea5e9",
+  "#f97316",
+  "#16a34a",
+  "#9333ea",
+  "#dc2626",
+  "#ca8a04",
+  "#0d9488",
+];
+
+export const DEFAULT_FACILITY: FacilityTerms = {
+  commitment: 50,
+  undrawnFee: 0.35,
+  upfrontFee: 0.5,
+  tenor: 3,
+  sublimits: {},
+};
+
+export const DEFAULT_PARAMS: SimulationParams = {
+  funding: "internal",
+  startingCash: { PE: 0, PC: 0, PRE: 0 },
+  cashPool: 50,
+  cashPoolFloor: 0,
+  borrowRate: 4.0,
+  lineRate: 4.4,
+  facility: DEFAULT_FACILITY,
+  idleRate: 4.0,
+  dayCounts: { borrow: "ACT/365", line: "ACT/360", idle: "ACT/365" },
+  settlement: {
+    borrow: { frequency: "daily", capitalize: false },
+    idle: { frequency: "daily", capitalize: true },
+  },
+  rateBasis: {
+    borrow: { floating: false, spread: 0 },
+    line: { floating: false, spread: 40 },
+    idle: { floating: false, spread: 0 },
+  },
+  alerts: { borrowLimit: 100, repaymentDays: 90, interestGraceDays: 30 },
+  days: 30,
+};
+
+export const PREFUNDED_PARAMS: SimulationParams = {
+  ...DEFAULT_PARAMS,
+  funding: "prefunded",
+  startingCash: { PE: 30, PC: 30, PRE: 30 },
+  cashPool: 0,
+};
+
+export const LOC_PARAMS: SimulationParams = {
+  ...DEFAULT_PARAMS,
+  funding: "loc",
+  lineRate: DEFAULT_PARAMS.borrowRate + 0.4,
+  idleRate: DEFAULT_PARAMS.idleRate,
+  cashPool: 0,
+};
+
+export const HYBRID_PARAMS: SimulationParams = {
+  ...DEFAULT_PARAMS,
+  funding: "hybrid",
+  cashPool: 25,
+  cashPoolFloor: 5,
+  facility: { ...DEFAULT_FACILITY, commitment: 25 },
+};
+
+/** Starting parameters for a new scenario of each funding mode. */
+export const FUNDING_PRESETS: Record<FundingMode, SimulationParams> = {
+  prefunded: PREFUNDED_PARAMS,
+  internal: DEFAULT_PARAMS,
+  loc: LOC_PARAMS,
+  hybrid: HYBRID_PARAMS,
+};
+
+export const DEFAULT_SCENARIOS: ScenarioConfig[] = [
+  { id: "prefunded", name: "Pre-Funded Pools", params: PREFUNDED_PARAMS },
+  { id: "internal", name: "Internal Cash Pool", params: DEFAULT_PARAMS },
+  { id: "loc", name: "External LOC", params: LOC_PARAMS },
+  { id: "hybrid", name: "Hybrid Pool + LOC", params: HYBRID_PARAMS },
+];
+
+/** Day-count conventions offered for each accrual. */
+export const DAY_COUNTS: DayCount[] = ["ACT/360", "ACT/365"];
+
+export const SETTLEMENT_FREQUENCIES: SettlementFrequency[] = [
+  "daily",
+  "monthly",
+  "quarterly",
+];
+
+export const BASE_RATE_KINDS: BaseRateKind[] = [
+  "flat",
+  "steps",
+  "curve",
+  "simulated",
+];
+
+export const DEFAULT_BASE_RATE: BaseRateCurve = {
+  name: "SOFR",
+  kind: "flat",
+  rate: 4.0,
+  points: [],
+  longRunRate: 3.5,
+  meanReversion: 0.5,
+  volatility: 1.0,
+};
+
+export const DEFAULT_PATH_SETTINGS: PathSettings = {
+  days: DEFAULT_PARAMS.days,
+  startDate: "2025-01-02",
+  calendar: "us",
+  holidays: [],
+  baseRate: DEFAULT_BASE_RATE,
+  eventModel: DEFAULT_EVENT_MODEL,
+};
@@ -0,0 +1,149 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PATH_SETTINGS,
+  DEFAULT_POOLS,
+  DEFAULT_SCENARIOS,
+  RECONCILIATION_TOLERANCE,
+  SETTLEMENT_FREQUENCIES,
+} from "./constants";
+import { runSimulation } from "./engine";
+import { reconcileJournal } from "./journal";
+import type { DayEvent, SimulationParams } from "./types";
+
+const TOLERANCE = 1e-9;
+
+const eventArbitrary = fc.record(
+  Object.fromEntries(
+    DEFAULT_POOLS.map((pool) => [
+      pool.key,
+      fc.oneof(
+        fc.constant(0),
+        fc.double({ min: -25, max: 25, noNaN: true, noDefaultInfinity: true })
+      ),
+    ])
+  )
+) as fc.Arbitrary<DayEvent>;
+
+const settlementArbitrary = fc.record({
+  frequency: fc.constantFrom(...SETTLEMENT_FREQUENCIES),
+  capitalize: fc.boolean(),
+});
+
+/**
+ * A built-in scenario under random settlement terms, starting cash and
+ * horizon, with the event stream to run it on. With `unlimitedLine` the
+ * facility never runs out, so no deficit is left unfunded.
+ */
+function runArbitrary(unlimitedLine = false) {
+  return fc
+    .record({
+      scenario: fc.constantFrom(...DEFAULT_SCENARIOS),
+      borrow: settlementArbitrary,
+      idle: settlementArbitrary,
+      startingCash: fc.double({ min: 0, max: 40, noNaN: true }),
+      events: fc.array(eventArbitrary, { minLength: 1, maxLength: 120 }),
+    })
+    .map(({ scenario, borrow, idle, startingCash, events }) => {
+      const params: SimulationParams = {
+        ...scenario.params,
+        startingCash: Object.fromEntries(
+          DEFAULT_POOLS.map((pool) => [pool.key, startingCash])
+        ),
+        settlement: { borrow, idle },
+        facility: unlimitedLine
+          ? { ...scenario.params.facility, commitment: 1_000_000 }
+          : scenario.params.facility,
+        days: events.length,
+      };
+      return runSimulation(params, events, {
+        pools: DEFAULT_POOLS,
+        calendar: DEFAULT_PATH_SETTINGS,
+      });
+    });
+}
+
+describe("runSimulation invariants", () => {
+  it("never leaves pool cash negative while funding is available", () => {
+    fc.assert(
+      fc.property(runArbitrary(true), ({ records }) => {
+        for (const record of records) {
+          for (const pool of record.pools) {
+            expect(pool.cash).toBeGreaterThanOrEqual(0);
+          }
+        }
+      })
+    );
+  });
+
+  it("never holds negative borrowing or unpaid interest", () => {
+    fc.assert(
+      fc.property(runArbitrary(), ({ records }) => {
+        for (const record of records) {
+          for (const pool of record.pools) {
+            expect(pool.borrow).toBeGreaterThanOrEqual(0);
+            expect(pool.lineBorrow).toBeGreaterThanOrEqual(0);
+            expect(pool.lineBorrow).toBeLessThanOrEqual(
+              pool.borrow + TOLERANCE
+            );
+            expect(pool.interestOwed).toBeGreaterThanOrEqual(-TOLERANCE);
+          }
+        }
+      })
+    );
+  });
+
+  it("never repays more than was borrowed plus interest", () => {
+    fc.assert(
+      fc.property(runArbitrary(), ({ records }) => {
+        let borrowed = 0;
+        let repaid = 0;
+        for (const record of records) {
+          borrowed += record.totals.borrowed;
+          repaid += record.totals.repaid;
+          const interest = record.pools.reduce(
+            (sum, pool) => sum + pool.borrowDrag,
+            0
+          );
+          expect(repaid).toBeLessThanOrEqual(borrowed + interest + TOLERANCE);
+        }
+      })
+    );
+  });
+
+  it("conserves cash every day", () => {
+    fc.assert(
+      fc.property(runArbitrary(), ({ records }) => {
+        for (const record of records) {
+          expect(Math.abs(record.reconciliation.residual)).toBeLessThanOrEqual(
+            RECONCILIATION_TOLERANCE
+          );
+        }
+      })
+    );
+  });
+
+  it("keeps the cash pool's receivable equal to the interest owed to it", () => {
+    fc.assert(
+      fc.property(runArbitrary(), ({ records }) => {
+        for (const record of records) {
+          const owed = record.pools.reduce(
+            (sum, pool) => sum + pool.interestOwed - pool.lineInterestOwed,
+            0
+          );
+          expect(record.cashPool.interestReceivable).toBeCloseTo(owed, 9);
+        }
+      })
+    );
+  });
+
+  it("ties the intercompany loan journal to the summary", () => {
+    fc.assert(
+      fc.property(runArbitrary(), (result) => {
+        for (const check of reconcileJournal(result)) {
+          expect(check.balanced, check.label).toBe(true);
+        }
+      })
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import { alertEpisodes } from "./alerts";
+import { DEFAULT_PARAMS, DEFAULT_POOLS } from "./constants";
+import { runSimulation } from "./engine";
+import { shortfallDays } from "./metrics";
+import type {
+  CalendarSettings,
+  DayEvent,
+  PoolConfig,
+  SimulationParams,
+} from "./types";
+
+// 3.65% on ACT/365 accrues exactly 0.0001 a day and 7.3% a year 0.0002, so
+// every expected figure below can be worked out by hand.
+const RATE = 3.65;
+const DAILY = 0.0001;
+
+// Day 1 is a Monday; days 6 and 7 fall on the weekend.
+const CALENDAR: CalendarSettings = {
+  startDate: "2025-01-06",
+  calendar: "weekends",
+  holidays: [],
+};
+
+const POOL: PoolConfig = {
+  ...DEFAULT_POOLS[0],
+  key: "A",
+  name: "Pool A",
+  expectedReturn: 7.3,
+};
+
+function params(overrides: Partial<SimulationParams> = {}): SimulationParams {
+  return {
+    ...DEFAULT_PARAMS,
+    funding: "internal",
+    startingCash: { A: 0 },
+    cashPool: 100,
+    borrowRate: RATE,
+    lineRate: RATE,
+    idleRate: RATE,
+    dayCounts: { borrow: "ACT/365", line: "ACT/365", idle: "ACT/365" },
+    days: 5,
+    ...overrides,
+  };
+}
+
+function run(overrides: Partial<SimulationParams>, events: number[]) {
+  const dayEvents: DayEvent[] = events.map((amount) => ({ A: amount }));
+  return runSimulation(params(overrides), dayEvents, {
+    pools: [POOL],
+    calendar: CALENDAR,
+  });
+}
+
+describe("borrowing and repayment", () => {
+  it("borrows a deficit from the cash pool and accrues interest that day", () => {
+    const { records } = run({ days: 1 }, [-10]);
+    const [pool] = records[0].pools;
+    expect(pool.cash).toBeCloseTo(0, 12);
+    expect(pool.borrow).toBe(10);
+    expect(pool.interestOwed).toBeCloseTo(10 * DAILY, 12);
+    expect(records[0].cashPool.cash).toBe(90);
+  });
+
+  it("pays interest that has fallen due before principal", () => {
+    const { records } = run({ days: 2 }, [-10, 4]);
+    const [pool] = records[1].pools;
+    const interest = 2 * 10 * DAILY;
+    expect(pool.interestPaid).toBeCloseTo(interest, 12);
+    expect(pool.interestOwed).toBeCloseTo(0, 12);
+    expect(pool.borrow).toBeCloseTo(10 - (4 - interest), 12);
+    expect(pool.cash).toBe(0);
+    // The repayment lands on top of the reserve's interest from day 1.
+    expect(records[1].cashPool.cash).toBeCloseTo(94 + 90 * DAILY, 12);
+  });
+
+  it("leaves principal untouched when cash only covers part of the interest", () => {
+    const { records } = run({ days: 2 }, [-10, 0.0015]);
+    const [pool] = records[1].pools;
+    expect(pool.interestPaid).toBeCloseTo(0.0015, 12);
+    expect(pool.interestOwed).toBeCloseTo(0.0005, 12);
+    expect(pool.borrow).toBe(10);
+  });
+
+  it("holds interest until month end under monthly settlement", () => {
+    const { records } = run(
+      {
+        days: 2,
+        settlement: {
+          ...DEFAULT_PARAMS.settlement,
+          borrow: { frequency: "monthly", capitalize: false },
+        },
+      },
+      [-10, 4]
+    );
+    const [pool] = records[1].pools;
+    expect(pool.interestPaid).toBe(0);
+    expect(pool.interestOwed).toBeCloseTo(2 * 10 * DAILY, 12);
+    expect(pool.borrow).toBe(6);
+  });
+
+  it("settles weekend events on the next business day", () => {
+    const events = [0, 0, 0, 0, 0, -10, 5, 0];
+    const { records } = run({ days: 8 }, events);
+    expect(records[5].pools[0].borrow).toBe(0);
+    expect(records[6].pools[0].borrow).toBe(0);
+    expect(records[7].activity.A).toBe(-5);
+    expect(records[7].pools[0].borrow).toBe(5);
+  });
+
+  it("reports weekend events still unsettled when the horizon ends", () => {
+    const { records, summary } = run({ days: 7 }, [0, 0, 0, 0, 0, -10, 5]);
+    expect(records[6].pools[0].borrow).toBe(0);
+    expect(summary.privatePools[0].unsettledFlows).toBe(-5);
+    expect(summary.totals.unsettledFlows).toBe(-5);
+  });
+});
+
+describe("shortfalls", () => {
+  // A $5M call on Friday against a $1M line leaves $4M unfunded over the
+  // weekend until Monday's retry is refused again.
+  const result = run(
+    {
+      funding: "loc",
+      cashPool: 0,
+      facility: { ...DEFAULT_PARAMS.facility, commitment: 1 },
+      days: 8,
+    },
+    [0, 0, 0, 0, -5, 0, 0, 0]
+  );
+
+  it("raises an unfunded deficit alert on every day a pool stays short", () => {
+    for (const record of result.records.slice(4)) {
+      expect(record.pools[0].cash).toBeCloseTo(-4, 12);
+      expect(record.alerts).toContainEqual({
+        kind: "unfundedDeficit",
+        pool: "A",
+        amount: expect.closeTo(4, 12),
+      });
+    }
+    const episodes = alertEpisodes(result.records).filter(
+      (episode) => episode.kind === "unfundedDeficit"
+    );
+    expect(episodes).toHaveLength(1);
+    expect(episodes[0].startDay).toBe(5);
+    expect(episodes[0].endDay).toBe(8);
+  });
+
+  it("counts the same shortfall days in the summary and the metrics", () => {
+    expect(result.summary.line.shortfallDays).toBe(4);
+    expect(shortfallDays(result)).toBe(4);
+  });
+});
+
+describe("idle interest", () => {
+  it("credits the day's idle interest the next morning", () => {
+    const { records } = run(
+      { funding: "prefunded", startingCash: { A: 100 }, cashPool: 0, days: 2 },
+      [0, 0]
+    );
+    expect(records[0].pools[0].interestEarned).toBeCloseTo(100 * DAILY, 12);
+    expect(records[0].pools[0].cash).toBe(100);
+    expect(records[1].pools[0].cash).toBeCloseTo(100 + 100 * DAILY, 12);
+    expect(records[1].pools[0].interestEarned).toBeCloseTo(
+      (100 + 100 * DAILY) * DAILY,
+      12
+    );
+    expect(records[1].reconciliation.interestCredited).toBeCloseTo(
+      100 * DAILY,
+      12
+    );
+  });
+
+  it("sweeps idle interest out when it is not capitalized", () => {
+    const { records } = run(
+      {
+        funding: "prefunded",
+        startingCash: { A: 100 },
+        cashPool: 0,
+        settlement: {
+          ...DEFAULT_PARAMS.settlement,
+          idle: { frequency: "daily", capitalize: false },
+        },
+        days: 3,
+      },
+      [0, 0, 0]
+    );
+    expect(records.map((record) => record.pools[0].cash)).toEqual([
+      100, 100, 100,
+    ]);
+  });
+
+  it("credits the cash pool's idle interest the next morning", () => {
+    const { records } = run({ days: 2 }, [0, 0]);
+    expect(records[0].cashPool.cash).toBe(100);
+    expect(records[1].cashPool.cash).toBeCloseTo(100 + 100 * DAILY, 12);
+  });
+});
+
+describe("cash drag", () => {
+  const prefunded = {
+    funding: "prefunded" as const,
+    startingCash: { A: 100 },
+    cashPool: 0,
+    days: 1,
+  };
+
+  it("charges the spread of the expected return over the idle rate", () => {
+    const { records } = run(prefunded, [0]);
+    expect(records[0].pools[0].cashDrag).toBeCloseTo(100 * DAILY, 12);
+    expect(records[0].pools[0].idleCredit).toBeCloseTo(100 * DAILY, 12);
+  });
+
+  it.each([
+    ["equals", RATE],
+    ["is below", RATE / 2],
+  ])("charges nothing when the expected return %s the idle rate", (_, rate) => {
+    const { records } = runSimulation(params(prefunded), [{ A: 0 }], {
+      pools: [{ ...POOL, expectedReturn: rate }],
+      calendar: CALENDAR,
+    });
+    expect(records[0].pools[0].cashDrag).toBe(0);
+    expect(records[0].totals.drag).toBe(0);
+  });
+
+  it("credits the idle interest earned even when it beats the expected return", () => {
+    const { records } = runSimulation(params(prefunded), [{ A: 0 }], {
+      pools: [{ ...POOL, expectedReturn: RATE / 2 }],
+      calendar: CALENDAR,
+    });
+    expect(records[0].pools[0].idleCredit).toBeCloseTo(
+      records[0].pools[0].interestEarned,
+      12
+    );
+    expect(records[0].pools[0].idleCredit).toBeCloseTo(100 * DAILY, 12);
+  });
+
+  it("charges nothing on borrowed pools with no idle cash", () => {
+    const { records } = run({ days: 1 }, [-10]);
+    expect(records[0].pools[0].cashDrag).toBe(0);
+  });
+});
@@ -0,0 +1,611 @@
+import { createAlertMonitor } from "./alerts";
+import { buildCalendar, dayCountBasis, type CalendarDay } from "./calendar";
+import {
+  CASH_POOL_KEY,
+  DEFAULT_BASE_RATE,
+  DEFAULT_PATH_SETTINGS,
+  DEFAULT_POOLS,
+} from "./constants";
+import { effectiveRate } from "./rates";
+import { periodLabel } from "./rollups";
+import { holdsReserve, usesLine } from "./scenarios";
+import type {
+  CalendarSettings,
+  CashPoolState,
+  CashReconciliation,
+  DailyRecord,
+  DayEvent,
+  FacilityState,
+  FacilityTerms,
+  JournalEntry,
+  JournalEntryKind,
+  PoolConfig,
+  PoolKey,
+  PoolState,
+  SettlementFrequency,
+  ShortfallEvent,
+  SimulationParams,
+  SimulationResult,
+  SimulationSummary,
+} from "./types";
+
+export interface SimulationOptions {
+  /**
+   * The pools that exist; defaults to the built-in private equity, private
+   * credit and real estate sleeves.
+   */
+  pools?: PoolConfig[];
+  /** The date of day 1 and the holidays observed. */
+  calendar?: CalendarSettings;
+  /**
+   * The daily base rate in % (see `baseRatePath`) that floating rates in
+   * `params.rateBasis` add their spreads to; defaults to the flat
+   * `DEFAULT_BASE_RATE`.
+   */
+  baseRates?: number[];
+  /**
+   * Moves every rate, fixed or floating, by the given percentage points on
+   * each day, as stress tests do.
+   */
+  rateShifts?: number[];
+}
+
+/**
+ * Runs one funding scenario over a stream of daily pool events.
+ *
+ * Each business day, pools absorb their event, borrow any deficit from the
+ * cash pool and pay interest that has fallen due before principal; events
+ * that fall on weekends or holidays settle on the next business day, and
+ * those still waiting when the horizon ends are reported in the summary
+ * (`unsettledFlows`) rather than settled. Interest accrues on every calendar
+ * day using each rate's day-count convention and settles as
+ * `params.settlement` sets: borrow interest falls due (and, if capitalized,
+ * is added to principal when unpaid) and idle interest is credited the
+ * morning after each settlement date. Cash drag is the opportunity cost of
+ * idle pool cash against each pool's expected return; `internal` and
+ * `hybrid` funding also charge drag on the reserve held in the cash pool.
+ * Draws on the external line (`loc` and `hybrid` funding) accrue at
+ * `lineRate`, are repaid before the cash pool and are limited by the
+ * facility commitment and pool sublimits; deficits beyond those limits are
+ * reported as shortfalls and stay unfunded. The facility also charges an
+ * undrawn commitment fee and an amortised upfront fee. Each record lists the
+ * liquidity alerts raised by its end-of-day balances against `params.alerts`
+ * and walks the day's cash from opening to closing balance
+ * (`reconciliation`); `journal` lists every posting to the intercompany
+ * loans between the pools and the cash pool. The same `dayEvents` can be
+ * passed to several scenarios to compare them on an identical path.
+ */
+export function runSimulation(
+  params: SimulationParams,
+  dayEvents: DayEvent[],
+  {
+    pools: poolConfigs = DEFAULT_POOLS,
+    calendar = DEFAULT_PATH_SETTINGS,
+    baseRates = [],
+    rateShifts = [],
+  }: SimulationOptions = {}
+): SimulationResult {
+  const pools: PoolState[] = poolConfigs.map((pool) => ({
+    key: pool.key,
+    name: pool.name,
+    cash: params.startingCash[pool.key] ?? 0,
+    borrow: 0,
+    lineBorrow: 0,
+    interestOwed: 0,
+    lineInterestOwed: 0,
+    interestAccrued: 0,
+    lineInterestAccrued: 0,
+    interestPaid: 0,
+    interestEarned: 0,
+    idleInterestAccrued: 0,
+    cashDrag: 0,
+    idleCredit: 0,
+    borrowDrag: 0,
+    lineDrag: 0,
+  }));
+  const expectedReturns = Object.fromEntries(
+    poolConfigs.map((pool) => [pool.key, pool.expectedReturn])
+  ) as Record<PoolKey, number>;
+
+  const cashPool: CashPoolState = {
+    cash: params.cashPool,
+    interestEarned: 0,
+    idleInterestAccrued: 0,
+    interestReceivable: 0,
+    activity: 0,
+    cashDrag: 0,
+    idleCredit: 0,
+    borrowDrag: 0,
+  };
+
+  const averageExpectedReturn =
+    pools.length === 0
+      ? 0
+      : pools.reduce((sum, pool) => sum + expectedReturns[pool.key], 0) /
+        pools.length;
+  const { dayCounts, rateBasis } = params;
+  const { facility: terms } = params;
+  const dailyUndrawnFeeRate =
+    terms.undrawnFee / 100 / dayCountBasis(dayCounts.line);
+  const dailyUpfrontFee =
+    (terms.commitment * terms.upfrontFee) / 100 / (terms.tenor * 365);
+
+  const facility: FacilityState = {
+    available: usesLine(params.funding) ? terms.commitment : 0,
+    interestDrag: 0,
+    undrawnFeeDrag: 0,
+    upfrontFeeDrag: 0,
+  };
+
+  const records: DailyRecord[] = [];
+  const journal: JournalEntry[] = [];
+  let totalBorrowed = 0;
+  let totalBorrowedFromLine = 0;
+  let totalRepaid = 0;
+  let totalRepaidToLine = 0;
+  let totalLineInterestPaid = 0;
+  let peakLineBalance = 0;
+  let shortfallDays = 0;
+  let peakShortfall = 0;
+  let pendingCashInterest = 0;
+  let totalInterestEarned = 0;
+  const pendingPoolInterest = zeroByPool(pools);
+  const deferredEvents = zeroByPool(pools);
+  // A week past the horizon shows whether its last days end a period.
+  const dates = buildCalendar(calendar, params.days + 7);
+  const { settlement } = params;
+  const settlesBorrow = settlementDays(dates, settlement.borrow.frequency);
+  const settlesIdle = settlementDays(dates, settlement.idle.frequency);
+  const checkAlerts = createAlertMonitor(params.alerts);
+
+  for (let day = 1; day <= params.days; day++) {
+    const events = dayEvents[day - 1] ?? {};
+    const { date, businessDay, holiday } = dates[day - 1];
+    const shift = rateShifts[day - 1] ?? 0;
+    const baseRate = (baseRates[day - 1] ?? DEFAULT_BASE_RATE.rate) + shift;
+    const rates = {
+      base: baseRate,
+      borrow: effectiveRate(
+        params.borrowRate + shift,
+        rateBasis.borrow,
+        baseRate
+      ),
+      line: effectiveRate(params.lineRate + shift, rateBasis.line, baseRate),
+      idle: effectiveRate(params.idleRate + shift, rateBasis.idle, baseRate),
+    };
+    const dailyBorrowRate =
+      rates.borrow / 100 / dayCountBasis(dayCounts.borrow);
+    const dailyLineRate = rates.line / 100 / dayCountBasis(dayCounts.line);
+    const dailyIdleRate = rates.idle / 100 / dayCountBasis(dayCounts.idle);
+    // Balances are read after the posting; the cash pool's can be passed in
+    // when the posting settles later in the day.
+    const post = (
+      kind: JournalEntryKind,
+      pool: PoolState | null,
+      amount: number,
+      cashPoolBalance = cashPool.cash
+    ) => {
+      journal.push({
+        sequence: journal.length + 1,
+        day,
+        date,
+        kind,
+        pool: pool ? pool.key : CASH_POOL_KEY,
+        amount,
+        principal: pool ? pool.borrow - pool.lineBorrow : 0,
+        interestOwed: pool ? pool.interestOwed - pool.lineInterestOwed : 0,
+        cashPool: cashPoolBalance,
+      });
+    };
+    const opening = totalCash(pools, cashPool);
+    const interestCredited =
+      pendingCashInterest +
+      pools.reduce((sum, pool) => sum + pendingPoolInterest[pool.key], 0);
+    if (pendingCashInterest !== 0) {
+      cashPool.cash += pendingCashInterest;
+      pendingCashInterest = 0;
+    }
+    cashPool.interestEarned = 0;
+    for (const pool of pools) {
+      if (pendingPoolInterest[pool.key] !== 0) {
+        pool.cash += pendingPoolInterest[pool.key];
+        pendingPoolInterest[pool.key] = 0;
+      }
+      pool.interestEarned = 0;
+    }
+
+    const dailyActivity = zeroByPool(pools, CASH_POOL_KEY);
+    let borrowedToday = 0;
+    let borrowedFromLineToday = 0;
+    let repaidToday = 0;
+    let repaidToLineToday = 0;
+    let lineInterestToday = 0;
+    let lineInterestPaidToday = 0;
+    let externalFlowsToday = 0;
+    const shortfalls: ShortfallEvent[] = [];
+    const dayInterest = zeroByPool(pools, CASH_POOL_KEY);
+    let dragToday = 0;
+
+    for (const pool of pools) {
+      const eventAmount = events[pool.key] ?? 0;
+      if (!businessDay) {
+        deferredEvents[pool.key] += eventAmount;
+      } else {
+        const settled = eventAmount + deferredEvents[pool.key];
+        deferredEvents[pool.key] = 0;
+        pool.cash += settled;
+        dailyActivity[pool.key] += settled;
+        externalFlowsToday += settled;
+
+        if (pool.cash < 0) {
+          const deficit = Math.abs(pool.cash);
+          const lineRequest = lineDraw(params, cashPool.cash, deficit);
+          const fromCashPool = deficit - lineRequest;
+          const headroom = facilityHeadroom(terms, pools, pool);
+          const fromLine = Math.min(lineRequest, headroom.amount);
+          const unfunded = lineRequest - fromLine;
+          pool.borrow += fromCashPool + fromLine;
+          pool.lineBorrow += fromLine;
+          borrowedToday += fromCashPool + fromLine;
+          borrowedFromLineToday += fromLine;
+          cashPool.cash -= fromCashPool;
+          dailyActivity[CASH_POOL_KEY] -= fromCashPool;
+          if (fromCashPool > 0) post("draw", pool, fromCashPool);
+          pool.cash = -unfunded;
+          if (unfunded > 0) {
+            shortfalls.push({
+              pool: pool.key,
+              amount: unfunded,
+              limit: headroom.limit,
+            });
+          }
+        }
+      }
+
+      if (pool.borrow > 0) {
+        const lineInterest = pool.lineBorrow * dailyLineRate;
+        const cashPoolInterest =
+          (pool.borrow - pool.lineBorrow) * dailyBorrowRate;
+        const interest = cashPoolInterest + lineInterest;
+        pool.interestOwed += interest;
+        pool.lineInterestOwed += lineInterest;
+        cashPool.interestReceivable += cashPoolInterest;
+        dayInterest[CASH_POOL_KEY] += cashPoolInterest;
+        if (cashPoolInterest > 0) {
+          post("interestAccrual", pool, cashPoolInterest);
+        }
+        pool.interestAccrued += interest;
+        pool.lineInterestAccrued += lineInterest;
+        pool.borrowDrag += interest;
+        pool.lineDrag += lineInterest;
+        dragToday += interest;
+        lineInterestToday += lineInterest;
+        dayInterest[pool.key] += interest;
+      }
+    }
+
+    if (settlesBorrow[day - 1]) {
+      for (const pool of pools) {
+        pool.interestAccrued = 0;
+        pool.lineInterestAccrued = 0;
+      }
+    }
+
+    for (const pool of pools) {
+      const interestDue = pool.interestOwed - pool.interestAccrued;
+      if (
+        !businessDay ||
+        pool.cash <= 0 ||
+        (pool.borrow === 0 && interestDue <= 0)
+      )
+        continue;
+      let available = pool.cash;
+      let payment = 0;
+      let linePayment = 0;
+
+      // The external line is the more expensive source, so each payment
+      // settles line interest and principal before the cash pool's share.
+      if (interestDue > 0) {
+        const interestPayment = Math.min(interestDue, available);
+        const lineShare = Math.min(
+          pool.lineInterestOwed - pool.lineInterestAccrued,
+          interestPayment
+        );
+        pool.interestOwed -= interestPayment;
+        pool.lineInterestOwed -= lineShare;
+        available -= interestPayment;
+        payment += interestPayment - lineShare;
+        linePayment += lineShare;
+        pool.interestPaid += interestPayment;
+        totalLineInterestPaid += lineShare;
+        lineInterestPaidToday += lineShare;
+        cashPool.interestReceivable -= interestPayment - lineShare;
+        if (interestPayment > lineShare) {
+          post(
+            "interestPayment",
+            pool,
+            interestPayment - lineShare,
+            cashPool.cash + payment
+          );
+        }
+      }
+
+      if (available > 0 && pool.borrow > 0) {
+        const principalPayment = Math.min(pool.borrow, available);
+        const lineShare = Math.min(pool.lineBorrow, principalPayment);
+        pool.borrow -= principalPayment;
+        pool.lineBorrow -= lineShare;
+        available -= principalPayment;
+        payment += principalPayment - lineShare;
+        linePayment += lineShare;
+        if (principalPayment > lineShare) {
+          post(
+            "repayment",
+            pool,
+            principalPayment - lineShare,
+            cashPool.cash + payment
+          );
+        }
+      }
+
+      pool.cash = available;
+
+      if (payment > 0) {
+        cashPool.cash += payment;
+        dailyActivity[CASH_POOL_KEY] += payment;
+      }
+      repaidToday += payment + linePayment;
+      repaidToLineToday += linePayment;
+    }
+
+    let capitalizedToday = 0;
+    if (settlesBorrow[day - 1] && settlement.borrow.capitalize) {
+      for (const pool of pools) {
+        if (pool.interestOwed <= 0) continue;
+        const cashPoolInterest = pool.interestOwed - pool.lineInterestOwed;
+        pool.borrow += pool.interestOwed;
+        pool.lineBorrow += pool.lineInterestOwed;
+        capitalizedToday += pool.interestOwed;
+        pool.interestOwed = 0;
+        pool.lineInterestOwed = 0;
+        cashPool.interestReceivable -= cashPoolInterest;
+        if (cashPoolInterest > 0) {
+          post("interestCapitalized", pool, cashPoolInterest);
+        }
+      }
+    }
+
+    for (const pool of pools) {
+      pool.interestEarned = pool.cash > 0 ? pool.cash * dailyIdleRate : 0;
+      pool.idleInterestAccrued += pool.interestEarned;
+      pool.idleCredit += pool.interestEarned;
+      dayInterest[pool.key] -= pool.interestEarned;
+      if (settlesIdle[day - 1]) {
+        // Uncapitalized interest is swept out of the pool.
+        if (settlement.idle.capitalize) {
+          pendingPoolInterest[pool.key] = pool.idleInterestAccrued;
+        }
+        pool.idleInterestAccrued = 0;
+      }
+    }
+
+    for (const pool of pools) {
+      const expectedRate = expectedReturns[pool.key] / 100 / 365;
+      if (pool.cash > 0 && expectedRate > dailyIdleRate) {
+        const drag = pool.cash * (expectedRate - dailyIdleRate);
+        pool.cashDrag += drag;
+        dragToday += drag;
+      }
+    }
+
+    cashPool.interestEarned =
+      cashPool.cash > 0 ? cashPool.cash * dailyIdleRate : 0;
+    cashPool.idleInterestAccrued += cashPool.interestEarned;
+    cashPool.idleCredit += cashPool.interestEarned;
+    totalInterestEarned += cashPool.interestEarned;
+    dayInterest[CASH_POOL_KEY] += cashPool.interestEarned;
+    if (settlesIdle[day - 1]) {
+      if (settlement.idle.capitalize) {
+        pendingCashInterest = cashPool.idleInterestAccrued;
+      }
+      if (cashPool.idleInterestAccrued > 0) {
+        post(
+          "idleInterestCredit",
+          null,
+          cashPool.idleInterestAccrued,
+          cashPool.cash + pendingCashInterest
+        );
+      }
+      cashPool.idleInterestAccrued = 0;
+    }
+
+    const lineBalance = pools.reduce((sum, pool) => sum + pool.lineBorrow, 0);
+    let undrawnFeeToday = 0;
+    let upfrontFeeToday = 0;
+    if (usesLine(params.funding)) {
+      undrawnFeeToday =
+        Math.max(0, terms.commitment - lineBalance) * dailyUndrawnFeeRate;
+      upfrontFeeToday = dailyUpfrontFee;
+      facility.available = Math.max(0, terms.commitment - lineBalance);
+      facility.interestDrag += lineInterestToday;
+      facility.undrawnFeeDrag += undrawnFeeToday;
+      facility.upfrontFeeDrag += upfrontFeeToday;
+      dragToday += undrawnFeeToday + upfrontFeeToday;
+    }
+
+    const shortfallToday = pools.reduce(
+      (sum, pool) => sum + Math.max(0, -pool.cash),
+      0
+    );
+    const alerts = checkAlerts(day, pools, cashPool);
+    if (alerts.some((alert) => alert.kind === "unfundedDeficit")) {
+      shortfallDays += 1;
+    }
+    peakShortfall = Math.max(peakShortfall, shortfallToday);
+    peakLineBalance = Math.max(peakLineBalance, lineBalance);
+
+    if (holdsReserve(params.funding)) {
+      const spread = (averageExpectedReturn - rates.idle) / 100 / 365;
+      if (spread > 0) {
+        const drag = params.cashPool * spread;
+        cashPool.cashDrag += drag;
+        dragToday += drag;
+      }
+    }
+
+    const closing = totalCash(pools, cashPool);
+    const reconciliation: CashReconciliation = {
+      opening,
+      interestCredited,
+      externalFlows: externalFlowsToday,
+      lineDrawn: borrowedFromLineToday,
+      lineRepaid: repaidToLineToday - lineInterestPaidToday,
+      lineInterestPaid: lineInterestPaidToday,
+      closing,
+      residual:
+        closing -
+        opening -
+        interestCredited -
+        externalFlowsToday -
+        borrowedFromLineToday +
+        repaidToLineToday,
+    };
+
+    totalBorrowed += borrowedToday;
+    totalBorrowedFromLine += borrowedFromLineToday;
+    totalRepaid += repaidToday;
+    totalRepaidToLine += repaidToLineToday;
+
+    records.push({
+      day,
+      date,
+      businessDay,
+      holiday,
+      pools: pools.map((pool) => ({ ...pool })),
+      cashPool: { ...cashPool },
+      facility: { ...facility },
+      shortfalls,
+      alerts,
+      rates,
+      activity: { ...dailyActivity },
+      totals: {
+        borrowed: borrowedToday,
+        borrowedFromCashPool: borrowedToday - borrowedFromLineToday,
+        borrowedFromLine: borrowedFromLineToday,
+        repaid: repaidToday,
+        repaidToLine: repaidToLineToday,
+        lineInterest: lineInterestToday,
+        capitalizedInterest: capitalizedToday,
+        lineBalance,
+        undrawnFee: undrawnFeeToday,
+        upfrontFee: upfrontFeeToday,
+        shortfall: shortfallToday,
+        interestByPool: { ...dayInterest },
+        drag: dragToday,
+      },
+      reconciliation,
+    });
+  }
+
+  const summary: SimulationSummary = {
+    privatePools: pools.map((pool) => ({
+      key: pool.key,
+      name: pool.name,
+      interestPaid: pool.interestPaid,
+      endingCash: pool.cash,
+      endingBorrow: pool.borrow,
+      unsettledFlows: deferredEvents[pool.key],
+    })),
+    cashPool: {
+      interestEarned: totalInterestEarned,
+      endingCash: cashPool.cash,
+    },
+    line: {
+      interestPaid: totalLineInterestPaid,
+      endingBalance: pools.reduce((sum, pool) => sum + pool.lineBorrow, 0),
+      peakBalance: peakLineBalance,
+      undrawnFees: facility.undrawnFeeDrag,
+      upfrontFees: facility.upfrontFeeDrag,
+      shortfallDays,
+      peakShortfall,
+    },
+    totals: {
+      borrowed: totalBorrowed,
+      borrowedFromCashPool: totalBorrowed - totalBorrowedFromLine,
+      borrowedFromLine: totalBorrowedFromLine,
+      repaid: totalRepaid,
+      repaidToLine: totalRepaidToLine,
+      unsettledFlows: pools.reduce(
+        (sum, pool) => sum + deferredEvents[pool.key],
+        0
+      ),
+      days: params.days,
+    },
+  };
+
+  return { records, summary, journal };
+}
+
+/**
+ * Portion of a pool's deficit drawn on the external line. `loc` funding
+ * draws everything on the line; `hybrid` uses the cash pool down to its
+ * minimum balance first; other modes draw entirely on the cash pool.
+ */
+function lineDraw(
+  params: SimulationParams,
+  cashPoolBalance: number,
+  deficit: number
+) {
+  if (params.funding === "loc") return deficit;
+  if (params.funding !== "hybrid") return 0;
+  const available = Math.max(0, cashPoolBalance - params.cashPoolFloor);
+  return Math.max(0, deficit - available);
+}
+
+/**
+ * Undrawn line a pool may still draw, limited by whichever of the facility
+ * commitment and the pool's sublimit is tighter.
+ */
+function facilityHeadroom(
+  terms: FacilityTerms,
+  pools: PoolState[],
+  pool: PoolState
+): { amount: number; limit: ShortfallEvent["limit"] } {
+  const drawn = pools.reduce((sum, other) => sum + other.lineBorrow, 0);
+  const commitmentRoom = terms.commitment - drawn;
+  const sublimit = terms.sublimits[pool.key];
+  const sublimitRoom =
+    sublimit === undefined ? Infinity : sublimit - pool.lineBorrow;
+  return sublimitRoom < commitmentRoom
+    ? { amount: Math.max(0, sublimitRoom), limit: "sublimit" }
+    : { amount: Math.max(0, commitmentRoom), limit: "commitment" };
+}
+
+/**
+ * Whether interest settles on each day: every business day for `daily`,
+ * otherwise the last business day of each month or quarter.
+ */
+function settlementDays(dates: CalendarDay[], frequency: SettlementFrequency) {
+  const settles = dates.map(() => false);
+  let nextPeriod: string | null = null;
+  for (let index = dates.length - 1; index >= 0; index--) {
+    const { date, businessDay } = dates[index];
+    if (!businessDay) continue;
+    const period = periodLabel(date, frequency);
+    settles[index] = frequency === "daily" || period !== nextPeriod;
+    nextPeriod = period;
+  }
+  return settles;
+}
+
+/** Cash held across the pools and the cash pool, overdrafts included. */
+function totalCash(pools: PoolState[], cashPool: CashPoolState) {
+  return pools.reduce((sum, pool) => sum + pool.cash, cashPool.cash);
+}
+
+function zeroByPool(pools: PoolState[], ...extraKeys: string[]) {
+  const totals: Record<PoolKey, number> = {};
+  for (const pool of pools) totals[pool.key] = 0;
+  for (const key of extraKeys) totals[key] = 0;
+  return totals;
+}
@@ -0,0 +1,211 @@
+import { DEFAULT_EVENT_MODEL, DEFAULT_POOLS } from "./constants";
+import { standardNormal, type RandomSource } from "./random";
+import type {
+  DayEvent,
+  EventModel,
+  EventSettings,
+  PoolConfig,
+  PoolKey,
+  StressRegime,
+} from "./types";
+
+/**
+ * Generates a synthetic stream of capital calls and distributions, one entry
+ * per day. Each pool rolls for a capital call or a distribution using its own
+ * event settings, with sizes drawn from its size distribution between
+ * `minSize` and `maxSize`. Pass a seeded source from `createRandom` to make
+ * the path reproducible.
+ *
+ * The event model can correlate the rolls across pools (a Gaussian copula:
+ * calls share the low tail and distributions the high tail, so correlated
+ * pools are called together) and switch between a calm and a stressed
+ * regime that scales the call and distribution probabilities. Uncorrelated
+ * pools without a regime roll exactly as before, so seeded paths replay
+ * unchanged.
+ */
+export function generateDayEvents(
+  days: number,
+  random: RandomSource = Math.random,
+  pools: PoolConfig[] = DEFAULT_POOLS,
+  model: EventModel = DEFAULT_EVENT_MODEL
+): DayEvent[] {
+  const factor = correlated(pools, model)
+    ? choleskyFactor(correlationMatrix(pools, model.correlations), true)
+    : null;
+  const { regime } = model;
+  let stressed = false;
+  return Array.from({ length: days }, () => {
+    if (regime.enabled) {
+      const change = stressed
+        ? regime.recoveryProbability
+        : regime.stressProbability;
+      if (random() < change / 100) stressed = !stressed;
+    }
+    const entry: DayEvent = {};
+    const rolls = factor ? correlatedRolls(factor, random) : null;
+    pools.forEach((pool, index) => {
+      const { callProbability, distributionProbability } = eventProbabilities(
+        pool.events,
+        stressed ? regime : null
+      );
+      let call: boolean;
+      let distribution: boolean;
+      if (rolls) {
+        call = rolls[index] < callProbability;
+        distribution = !call && rolls[index] >= 1 - distributionProbability;
+      } else {
+        const roll = random();
+        call = roll < callProbability;
+        distribution =
+          !call && roll < callProbability + distributionProbability;
+      }
+      if (call) {
+        entry[pool.key] = -sampleEventSize(pool.events, random);
+      } else if (distribution) {
+        entry[pool.key] = sampleEventSize(pool.events, random);
+      } else {
+        entry[pool.key] = 0;
+      }
+    });
+    return entry;
+  });
+}
+
+/**
+ * Key of the correlation between two pools' event rolls in
+ * `EventModel.correlations`, the same whichever order the pools are given.
+ */
+export function correlationKey(a: PoolKey, b: PoolKey) {
+  return a < b ? `${a}/${b}` : `${b}/${a}`;
+}
+
+/** The pools' event correlation matrix, with pairs left out treated as 0. */
+export function correlationMatrix(
+  pools: PoolConfig[],
+  correlations: Record<string, number>
+) {
+  return pools.map((row) =>
+    pools.map((column) =>
+      row.key === column.key
+        ? 1
+        : correlations[correlationKey(row.key, column.key)] ?? 0
+    )
+  );
+}
+
+/**
+ * Lower-triangular Cholesky factor of a correlation matrix, or `null` when
+ * the correlations are inconsistent (not positive semi-definite). With
+ * `repair`, pivots that would fail are floored at zero instead, which keeps
+ * a slightly inconsistent matrix usable.
+ */
+export function choleskyFactor(matrix: number[][], repair = false) {
+  const size = matrix.length;
+  const factor = matrix.map(() => new Array<number>(size).fill(0));
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column <= row; column++) {
+      let sum = matrix[row][column];
+      for (let k = 0; k < column; k++) {
+        sum -= factor[row][k] * factor[column][k];
+      }
+      if (row === column) {
+        if (sum < -1e-9 && !repair) return null;
+        factor[row][row] = Math.sqrt(Math.max(sum, 0));
+      } else {
+        factor[row][column] =
+          factor[column][column] > 0 ? sum / factor[column][column] : 0;
+      }
+    }
+  }
+  return factor;
+}
+
+/**
+ * Samples a normal distribution centred on the middle of `[min, max]` with
+ * the range spanning ±3 standard deviations, clamped to the range.
+ */
+export function sampleNormalRange(
+  min: number,
+  max: number,
+  random: RandomSource = Math.random
+) {
+  const mean = (min + max) / 2;
+  const stdDev = (max - min) / 6;
+  let u = 0;
+  let v = 0;
+  while (u === 0) u = random();
+  while (v === 0) v = random();
+  const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  const value = mean + z * stdDev;
+  return Math.min(Math.max(value, min), max);
+}
+
+function correlated(pools: PoolConfig[], model: EventModel) {
+  return pools.some((row, index) =>
+    pools
+      .slice(index + 1)
+      .some(
+        (column) =>
+          (model.correlations[correlationKey(row.key, column.key)] ?? 0) !== 0
+      )
+  );
+}
+
+/** One uniform roll per pool, correlated through `factor`. */
+function correlatedRolls(factor: number[][], random: RandomSource) {
+  const shocks = factor.map(() => standardNormal(random));
+  return factor.map((row) =>
+    normalCdf(row.reduce((sum, weight, k) => sum + weight * shocks[k], 0))
+  );
+}
+
+/** Daily call and distribution probabilities as fractions. */
+function eventProbabilities(
+  events: EventSettings,
+  stress: StressRegime | null
+) {
+  const callMultiplier = stress?.callMultiplier ?? 1;
+  const distributionMultiplier = stress?.distributionMultiplier ?? 1;
+  const callProbability = Math.min(
+    1,
+    (events.callProbability * callMultiplier) / 100
+  );
+  const distributionProbability = Math.min(
+    1 - callProbability,
+    (events.distributionProbability * distributionMultiplier) / 100
+  );
+  return { callProbability, distributionProbability };
+}
+
+function sampleEventSize(events: EventSettings, random: RandomSource) {
+  const { minSize, maxSize } = events;
+  switch (events.sizeDistribution) {
+    case "normal":
+      return sampleNormalRange(minSize, maxSize, random);
+    case "uniform":
+      return minSize + random() * (maxSize - minSize);
+    case "lognormal": {
+      // Median at the geometric midpoint, ±3 standard deviations in log space.
+      const low = Math.log(minSize);
+      const high = Math.log(maxSize);
+      const value = Math.exp(
+        (low + high) / 2 + ((high - low) / 6) * standardNormal(random)
+      );
+      return Math.min(Math.max(value, minSize), maxSize);
+    }
+  }
+}
+
+/** Standard normal CDF (Abramowitz and Stegun 26.2.17). */
+function normalCdf(z: number) {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
@@ -0,0 +1,204 @@
+export {
+  addDays,
+  buildCalendar,
+  dayCountBasis,
+  daysBetween,
+  horizonDays,
+  isBusinessDay,
+  isIsoDate,
+  usHolidays,
+} from "./calendar";
+export type { CalendarDay } from "./calendar";
+export {
+  DRAG_COMPONENTS,
+  DRAG_COMPONENT_LABELS,
+  attributeDrag,
+  compareAttributions,
+} from "./attribution";
+export type {
+  AttributionStep,
+  DragAttribution,
+  DragBreakdown,
+  DragComparison,
+  DragComponent,
+} from "./attribution";
+export { runSimulation } from "./engine";
+export type { SimulationOptions } from "./engine";
+export {
+  choleskyFactor,
+  correlationKey,
+  correlationMatrix,
+  generateDayEvents,
+  sampleNormalRange,
+} from "./events";
+export {
+  annualizedDrag,
+  conservationBreaks,
+  percentile,
+  shortfallDays,
+  totalDrag,
+} from "./metrics";
+export {
+  MAX_BAND_POINTS,
+  MAX_MONTE_CARLO_PATHS,
+  MIN_MONTE_CARLO_PATHS,
+  createPathSampler,
+  runMonteCarlo,
+} from "./monteCarlo";
+export type {
+  DragBand,
+  DragDistribution,
+  MonteCarloOptions,
+  MonteCarloPoolResult,
+  MonteCarloResult,
+  MonteCarloScenario,
+  MonteCarloScenarioResult,
+  SampledPath,
+} from "./monteCarlo";
+export {
+  MAX_OPTIMIZER_PATHS,
+  MIN_OPTIMIZER_PATHS,
+  gridLevels,
+  runOptimizer,
+} from "./optimizer";
+export type {
+  OptimizerCandidate,
+  OptimizerOptions,
+  OptimizerResult,
+} from "./optimizer";
+export {
+  JOURNAL_ENTRY_KINDS,
+  JOURNAL_ENTRY_LABELS,
+  journalTotals,
+  reconcileJournal,
+} from "./journal";
+export type { JournalCheck } from "./journal";
+export { createPool } from "./pools";
+export {
+  cloneScenario,
+  createScenario,
+  holdsReserve,
+  usesLine,
+} from "./scenarios";
+export {
+  SCENARIO_SET_VERSION,
+  loadScenarioSet,
+  parseScenarioSet,
+  serializeScenarioSet,
+  toScenarioSetFile,
+} from "./scenarioSets";
+export type {
+  ScenarioSet,
+  ScenarioSetFile,
+  ScenarioSetLoadResult,
+} from "./scenarioSets";
+export { createRandom, parseSeed, randomSeed } from "./random";
+export {
+  baseRatePath,
+  createRateRandom,
+  effectiveRate,
+  parseRateCurveCsv,
+} from "./rates";
+export type { RateCurveParseResult } from "./rates";
+export { createReturnRandom, sampleExpectedReturns } from "./returns";
+export {
+  ALERT_LABELS,
+  SHORTFALL_ALERTS,
+  alertEpisodes,
+  createAlertMonitor,
+} from "./alerts";
+export type { AlertEpisode } from "./alerts";
+export { STRESS_TESTS, applyStressTest, runStressTests } from "./stress";
+export type {
+  StressMetrics,
+  StressOptions,
+  StressReport,
+  StressScenarioResult,
+  StressShock,
+  StressTest,
+  StressTestResult,
+} from "./stress";
+export { periodLabel, rollUpRecords } from "./rollups";
+export type { PeriodRecord, RollupPeriod } from "./rollups";
+export {
+  parseScheduleCsv,
+  parseScheduleJson,
+  scheduleDays,
+  scheduleToDayEvents,
+} from "./schedule";
+export type {
+  CashFlowSchedule,
+  ScheduledFlow,
+  ScheduleIssue,
+  ScheduleParseResult,
+} from "./schedule";
+export type { RandomSource } from "./random";
+export {
+  MAX_DAYS,
+  hasErrors,
+  validateEventSettings,
+  validateParams,
+  validatePathSettings,
+  validatePool,
+  validateScenario,
+} from "./validation";
+export type { ValidationErrors } from "./validation";
+export {
+  CASH_POOL_KEY,
+  BASE_RATE_KINDS,
+  DAY_COUNTS,
+  DEFAULT_BASE_RATE,
+  DEFAULT_EVENT_MODEL,
+  DEFAULT_EVENT_SETTINGS,
+  DEFAULT_FACILITY,
+  DEFAULT_PARAMS,
+  DEFAULT_PATH_SETTINGS,
+  DEFAULT_POOLS,
+  DEFAULT_SCENARIOS,
+  FUNDING_PRESETS,
+  HYBRID_PARAMS,
+  LOC_PARAMS,
+  POOL_COLORS,
+  PREFUNDED_PARAMS,
+  RECONCILIATION_TOLERANCE,
+  SETTLEMENT_FREQUENCIES,
+  SIZE_DISTRIBUTIONS,
+} from "./constants";
+export type {
+  AlertKind,
+  AlertThresholds,
+  BaseRateCurve,
+  BaseRateKind,
+  BusinessCalendar,
+  CalendarSettings,
+  CashPoolState,
+  CashReconciliation,
+  DailyRecord,
+  DayCount,
+  DayEvent,
+  EventModel,
+  EventSettings,
+  FacilityState,
+  FacilityTerms,
+  FundingMode,
+  InterestSettlement,
+  JournalEntry,
+  JournalEntryKind,
+  LiquidityAlert,
+  PathSettings,
+  PoolConfig,
+  PoolKey,
+  PoolState,
+  PoolSummary,
+  RateBasis,
+  RatePoint,
+  ScenarioConfig,
+  ScenarioId,
+  SettlementFrequency,
+  SimulationParams,
+  SimulationResult,
+  ShortfallEvent,
+  SimulationSummary,
+  SizeDistribution,
+  StressRegime,
+} from "./types";
@@ -0,0 +1,100 @@
+import { RECONCILIATION_TOLERANCE } from "./constants";
+import type { JournalEntry, JournalEntryKind, SimulationResult } from "./types";
+
+/** One tie-out between journal totals and the run they were posted in. */
+export interface JournalCheck {
+  label: string;
+  /** What the journal entries add up to, in $ millions. */
+  journal: number;
+  /** The same figure taken from the run's summary and final balances. */
+  expected: number;
+  /** True when the two agree to within `RECONCILIATION_TOLERANCE`. */
+  balanced: boolean;
+}
+
+export const JOURNAL_ENTRY_KINDS: JournalEntryKind[] = [
+  "draw",
+  "repayment",
+  "interestAccrual",
+  "interestPayment",
+  "interestCapitalized",
+  "idleInterestCredit",
+];
+
+export const JOURNAL_ENTRY_LABELS: Record<JournalEntryKind, string> = {
+  draw: "Draw",
+  repayment: "Principal repayment",
+  interestAccrual: "Interest accrual",
+  interestPayment: "Interest payment",
+  interestCapitalized: "Interest capitalized",
+  idleInterestCredit: "Idle interest credit",
+};
+
+/** Sum of the entries' amounts by kind. */
+export function journalTotals(entries: JournalEntry[]) {
+  const totals = Object.fromEntries(
+    JOURNAL_ENTRY_KINDS.map((kind) => [kind, 0])
+  ) as Record<JournalEntryKind, number>;
+  for (const entry of entries) {
+    totals[entry.kind] += entry.amount;
+  }
+  return totals;
+}
+
+/**
+ * Ties a run's journal to its `SimulationSummary`: draws, cash received,
+ * interest paid and principal outstanding on the cash pool's side of each
+ * loan, plus the idle interest the cash pool has settled. Interest still
+ * accruing at the end of the run is taken from the last day's balances.
+ */
+export function reconcileJournal(result: SimulationResult): JournalCheck[] {
+  const { summary, records } = result;
+  const last = records[records.length - 1];
+  const totals = journalTotals(result.journal);
+  const sum = (values: number[]) =>
+    values.reduce((total, value) => total + value, 0);
+  const check = (label: string, journal: number, expected: number) => ({
+    label,
+    journal,
+    expected,
+    balanced: Math.abs(journal - expected) <= RECONCILIATION_TOLERANCE,
+  });
+
+  return [
+    check("Draws", totals.draw, summary.totals.borrowedFromCashPool),
+    check(
+      "Principal and interest received",
+      totals.repayment + totals.interestPayment,
+      summary.totals.repaid - summary.totals.repaidToLine
+    ),
+    check(
+      "Interest paid",
+      totals.interestPayment,
+      sum(summary.privatePools.map((pool) => pool.interestPaid)) -
+        summary.line.interestPaid
+    ),
+    check(
+      "Principal outstanding",
+      totals.draw + totals.interestCapitalized - totals.repayment,
+      sum(summary.privatePools.map((pool) => pool.endingBorrow)) -
+        summary.line.endingBalance
+    ),
+    check(
+      "Interest outstanding",
+      totals.interestAccrual -
+        totals.interestPayment -
+        totals.interestCapitalized,
+      sum(
+        (last?.pools ?? []).map(
+          (pool) => pool.interestOwed - pool.lineInterestOwed
+        )
+      )
+    ),
+    check(
+      "Idle interest credited",
+      totals.idleInterestCredit,
+      summary.cashPool.interestEarned -
+        (last ? last.cashPool.idleInterestAccrued : 0)
+    ),
+  ];
+}
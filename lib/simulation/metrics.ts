@@ -0,0 +1,52 @@
+import { SHORTFALL_ALERTS } from "./alerts";
+import { RECONCILIATION_TOLERANCE } from "./constants";
+import type { DailyRecord, SimulationResult } from "./types";
+
+/** Cumulative cash + borrow drag over every day of a run, in $ millions. */
+export function totalDrag(result: SimulationResult) {
+  return result.records.reduce((sum, record) => sum + record.totals.drag, 0);
+}
+
+/**
+ * Drag per year of the simulated horizon, in $ millions: total drag scaled
+ * by 365 over the number of calendar days run.
+ */
+export function annualizedDrag(result: SimulationResult) {
+  if (result.records.length === 0) return 0;
+  return (totalDrag(result) * 365) / result.records.length;
+}
+
+/**
+ * Days that raised a shortfall alert (`SHORTFALL_ALERTS`): a pool was left
+ * with an unfunded deficit or the cash pool was overdrawn. Under `prefunded`
+ * and `loc` funding the cash pool holds no reserve, so any draw on it is an
+ * overdraft.
+ */
+export function shortfallDays(result: SimulationResult) {
+  return result.records.filter((record) =>
+    record.alerts.some((alert) => SHORTFALL_ALERTS.includes(alert.kind))
+  ).length;
+}
+
+/**
+ * Records whose cash walk does not balance: money appeared or vanished
+ * without an external flow, line movement or interest credit to explain it.
+ */
+export function conservationBreaks<T extends DailyRecord>(records: T[]) {
+  return records.filter(
+    (record) =>
+      Math.abs(record.reconciliation.residual) > RECONCILIATION_TOLERANCE
+  );
+}
+
+/**
+ * Linearly interpolated percentile (0–100) of an ascending-sorted sample.
+ */
+export function percentile(sorted: ArrayLike<number>, p: number) {
+  if (sorted.length === 0) return Number.NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * weight;
+}
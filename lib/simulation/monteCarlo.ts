@@ -0,0 +1,244 @@
+import { runSimulation } from "./engine";
+import { generateDayEvents } from "./events";
+import { percentile, totalDrag } from "./metrics";
+import { createRandom } from "./random";
+import { baseRatePath, createRateRandom } from "./rates";
+import { createReturnRandom, sampleExpectedReturns } from "./returns";
+import type {
+  DayEvent,
+  PathSettings,
+  PoolConfig,
+  PoolKey,
+  ScenarioId,
+  SimulationParams,
+} from "./types";
+
+export interface MonteCarloScenario {
+  id: ScenarioId;
+  params: SimulationParams;
+}
+
+export interface MonteCarloOptions {
+  scenarios: MonteCarloScenario[];
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  paths: number;
+  seed: number;
+  /** Called periodically with the number of completed paths. */
+  onProgress?: (completed: number) => void;
+}
+
+/** Distribution of total drag across paths, in $ millions. */
+export interface DragDistribution {
+  mean: number;
+  median: number;
+  p5: number;
+  p95: number;
+  worst: number;
+}
+
+/** Percentiles of cumulative drag across paths at the end of one day. */
+export interface DragBand {
+  day: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloScenarioResult {
+  id: ScenarioId;
+  drag: DragDistribution;
+  /** Cumulative drag bands at up to `MAX_BAND_POINTS` days of the horizon. */
+  bands: DragBand[];
+  /** Share of paths on which this scenario had the lowest drag. */
+  winProbability: number;
+  /** Share of paths on which this scenario beat each other scenario. */
+  beats: Partial<Record<ScenarioId, number>>;
+}
+
+/** Distribution of a pool's expected return draws across paths, in %. */
+export interface MonteCarloPoolResult {
+  key: PoolKey;
+  mean: number;
+  p5: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  seed: number;
+  scenarios: MonteCarloScenarioResult[];
+  pools: MonteCarloPoolResult[];
+}
+
+/** One simulated path: its events, base rates and pool return draws. */
+export interface SampledPath {
+  dayEvents: DayEvent[];
+  baseRates: number[];
+  pools: PoolConfig[];
+}
+
+export const MIN_MONTE_CARLO_PATHS = 100;
+export const MAX_MONTE_CARLO_PATHS = 50_000;
+export const MAX_BAND_POINTS = 48;
+
+/**
+ * Runs every scenario over `paths` seeded event paths. Each path is shared by
+ * all scenarios, so pairwise comparisons are made on identical cash flows.
+ * A simulated base rate gets a fresh rate path alongside each event path, and
+ * each pool a fresh expected return drawn around its `expectedReturn`.
+ */
+export function runMonteCarlo({
+  scenarios,
+  pools,
+  pathSettings,
+  paths,
+  seed,
+  onProgress,
+}: MonteCarloOptions): MonteCarloResult {
+  const samplePath = createPathSampler(pools, pathSettings, seed);
+  const bandDays = bandCheckpoints(pathSettings.days);
+  const drags = scenarios.map(() => new Float64Array(paths));
+  const cumulative = scenarios.map(
+    () => new Float32Array(paths * bandDays.length)
+  );
+  const returns = pools.map(() => new Float64Array(paths));
+  const wins = scenarios.map(() => 0);
+  const beats = scenarios.map(() => scenarios.map(() => 0));
+  const progressInterval = Math.max(1, Math.floor(paths / 100));
+
+  for (let path = 0; path < paths; path++) {
+    const { dayEvents, baseRates, pools: pathPools } = samplePath();
+    pathPools.forEach((pool, index) => {
+      returns[index][path] = pool.expectedReturn;
+    });
+    const pathDrag = scenarios.map((scenario, index) => {
+      const result = runSimulation(
+        { ...scenario.params, days: pathSettings.days },
+        dayEvents,
+        { pools: pathPools, calendar: pathSettings, baseRates }
+      );
+      const drag = totalDrag(result);
+      drags[index][path] = drag;
+      let running = 0;
+      let checkpoint = 0;
+      for (const record of result.records) {
+        running += record.totals.drag;
+        if (record.day === bandDays[checkpoint]) {
+          cumulative[index][checkpoint * paths + path] = running;
+          checkpoint += 1;
+        }
+      }
+      return drag;
+    });
+
+    const lowest = Math.min(...pathDrag);
+    const winners = pathDrag.filter((drag) => drag === lowest).length;
+    pathDrag.forEach((drag, index) => {
+      if (drag === lowest) wins[index] += 1 / winners;
+      pathDrag.forEach((other, otherIndex) => {
+        if (drag < other) beats[index][otherIndex] += 1;
+      });
+    });
+
+    if (
+      onProgress &&
+      ((path + 1) % progressInterval === 0 || path + 1 === paths)
+    ) {
+      onProgress(path + 1);
+    }
+  }
+
+  return {
+    paths,
+    seed,
+    scenarios: scenarios.map((scenario, index) => ({
+      id: scenario.id,
+      drag: describeDistribution(drags[index]),
+      bands: bandDays.map((day, checkpoint) => {
+        const sorted = cumulative[index]
+          .slice(checkpoint * paths, (checkpoint + 1) * paths)
+          .sort();
+        return {
+          day,
+          p5: percentile(sorted, 5),
+          p25: percentile(sorted, 25),
+          p50: percentile(sorted, 50),
+          p75: percentile(sorted, 75),
+          p95: percentile(sorted, 95),
+        };
+      }),
+      winProbability: wins[index] / paths,
+      beats: scenarios.reduce((acc, other, otherIndex) => {
+        if (otherIndex !== index) {
+          acc[other.id] = beats[index][otherIndex] / paths;
+        }
+        return acc;
+      }, {} as Partial<Record<ScenarioId, number>>),
+    })),
+    pools: pools.map((pool, index) => {
+      const { mean, p5, p95 } = describeDistribution(returns[index]);
+      return { key: pool.key, mean, p5, p95 };
+    }),
+  };
+}
+
+/**
+ * Draws successive seeded paths. Events, simulated base rates and pool
+ * returns come from separate streams, so the same seed replays the same
+ * events whichever of the others are enabled.
+ */
+export function createPathSampler(
+  pools: PoolConfig[],
+  pathSettings: PathSettings,
+  seed: number
+): () => SampledPath {
+  const random = createRandom(seed);
+  const rateRandom = createRateRandom(seed);
+  const returnRandom = createReturnRandom(seed);
+  const fixedRates = baseRatePath(
+    pathSettings.baseRate,
+    pathSettings.startDate,
+    pathSettings.days
+  );
+  return () => ({
+    dayEvents: generateDayEvents(
+      pathSettings.days,
+      random,
+      pools,
+      pathSettings.eventModel
+    ),
+    baseRates:
+      pathSettings.baseRate.kind === "simulated"
+        ? baseRatePath(
+            pathSettings.baseRate,
+            pathSettings.startDate,
+            pathSettings.days,
+            rateRandom
+          )
+        : fixedRates,
+    pools: sampleExpectedReturns(pools, returnRandom),
+  });
+}
+
+/** Evenly spaced days at which to record bands, always including the last. */
+function bandCheckpoints(days: number) {
+  const count = Math.min(days, MAX_BAND_POINTS);
+  return Array.from({ length: count }, (_, index) =>
+    Math.round(((index + 1) * days) / count)
+  );
+}
+
+function describeDistribution(values: Float64Array): DragDistribution {
+  const sorted = Float64Array.from(values).sort();
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    mean: sum / sorted.length,
+    median: percentile(sorted, 50),
+    p5: percentile(sorted, 5),
+    p95: percentile(sorted, 95),
+    worst: sorted[sorted.length - 1],
+  };
+}
@@ -0,0 +1,231 @@
+import { runSimulation } from "./engine";
+import { percentile, shortfallDays, totalDrag } from "./metrics";
+import { createPathSampler, type SampledPath } from "./monteCarlo";
+import { holdsReserve } from "./scenarios";
+import type {
+  PathSettings,
+  PoolConfig,
+  PoolKey,
+  SimulationParams,
+} from "./types";
+
+export interface OptimizerOptions {
+  /** The scenario to tune; every other parameter is held fixed. */
+  params: SimulationParams;
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  paths: number;
+  seed: number;
+  /**
+   * Cash pool sizes to try, in $ millions. Only `internal` and `hybrid`
+   * funding hold a reserve; other modes keep `params.cashPool`.
+   */
+  cashPoolSizes: number[];
+  /** Starting cash to try for each pool, in $ millions. */
+  prefundingLevels: number[];
+  /** Highest acceptable share of paths with a shortfall, 0–1. */
+  maxShortfallProbability: number;
+  /** Called after each candidate with the number evaluated so far. */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/** One cash pool size and set of pre-funding levels, scored across paths. */
+export interface OptimizerCandidate {
+  cashPool: number;
+  startingCash: Record<PoolKey, number>;
+  /** Mean total drag across paths, in $ millions. */
+  meanDrag: number;
+  p95Drag: number;
+  /** Share of paths with at least one shortfall day (see `shortfallDays`). */
+  shortfallProbability: number;
+  /** Whether the shortfall probability is within the limit. */
+  feasible: boolean;
+}
+
+export interface OptimizerResult {
+  paths: number;
+  seed: number;
+  maxShortfallProbability: number;
+  /** The scenario's own cash pool and pre-funding, for comparison. */
+  current: OptimizerCandidate;
+  /** The feasible candidate with the lowest mean drag, if any. */
+  best: OptimizerCandidate | null;
+  /**
+   * Candidates that no other matches on shortfall risk with lower drag,
+   * from the safest to the cheapest.
+   */
+  frontier: OptimizerCandidate[];
+  candidates: OptimizerCandidate[];
+}
+
+export const MIN_OPTIMIZER_PATHS = 50;
+export const MAX_OPTIMIZER_PATHS = 5_000;
+
+/**
+ * Searches cash pool sizes and per-pool pre-funding levels for the lowest
+ * expected drag whose probability of a shortfall stays within
+ * `maxShortfallProbability`. Every candidate is scored on the same seeded
+ * paths, drawn afresh from `seed` for each candidate so that only one path
+ * is held in memory at a time. The search first tries each cash pool size
+ * with every pool pre-funded at the same level, then, from the best point
+ * found, tries each level for one pool at a time and each cash pool size
+ * once more.
+ */
+export function runOptimizer({
+  params,
+  pools,
+  pathSettings,
+  paths,
+  seed,
+  cashPoolSizes,
+  prefundingLevels,
+  maxShortfallProbability,
+  onProgress,
+}: OptimizerOptions): OptimizerResult {
+  const sizes = holdsReserve(params.funding)
+    ? cashPoolSizes
+    : [params.cashPool];
+  const total =
+    sizes.length * prefundingLevels.length +
+    pools.length * prefundingLevels.length +
+    sizes.length;
+  const evaluated = new Map<string, OptimizerCandidate>();
+
+  const evaluate = (
+    cashPool: number,
+    startingCash: Record<PoolKey, number>
+  ) => {
+    const key = candidateKey(cashPool, startingCash, pools);
+    let candidate = evaluated.get(key);
+    if (!candidate) {
+      candidate = scoreCandidate(
+        { ...params, cashPool, startingCash, days: pathSettings.days },
+        createPathSampler(pools, pathSettings, seed),
+        paths,
+        pathSettings,
+        maxShortfallProbability
+      );
+      evaluated.set(key, candidate);
+    }
+    return candidate;
+  };
+
+  const current = evaluate(
+    params.cashPool,
+    Object.fromEntries(
+      pools.map((pool) => [pool.key, params.startingCash[pool.key] ?? 0])
+    )
+  );
+  let best = current;
+  let completed = 0;
+  const consider = (
+    cashPool: number,
+    startingCash: Record<PoolKey, number>
+  ) => {
+    const candidate = evaluate(cashPool, startingCash);
+    if (isBetter(candidate, best)) best = candidate;
+    completed += 1;
+    onProgress?.(completed, total);
+  };
+
+  for (const cashPool of sizes) {
+    for (const level of prefundingLevels) {
+      consider(
+        cashPool,
+        Object.fromEntries(pools.map((pool) => [pool.key, level]))
+      );
+    }
+  }
+  for (const pool of pools) {
+    for (const level of prefundingLevels) {
+      consider(best.cashPool, { ...best.startingCash, [pool.key]: level });
+    }
+  }
+  for (const cashPool of sizes) {
+    consider(cashPool, best.startingCash);
+  }
+
+  const candidates = [...evaluated.values()];
+  return {
+    paths,
+    seed,
+    maxShortfallProbability,
+    current,
+    best: best.feasible ? best : null,
+    frontier: efficientFrontier(candidates),
+    candidates,
+  };
+}
+
+/** Levels from 0 up to `max` in steps of `step`, always ending at `max`. */
+export function gridLevels(max: number, step: number) {
+  if (!(step > 0) || !(max >= 0)) return [0];
+  const count = Math.floor(max / step + 1e-9);
+  const levels = Array.from({ length: count + 1 }, (_, index) => index * step);
+  if (max - levels[levels.length - 1] > 1e-9) levels.push(max);
+  return levels;
+}
+
+function scoreCandidate(
+  params: SimulationParams,
+  samplePath: () => SampledPath,
+  paths: number,
+  pathSettings: PathSettings,
+  maxShortfallProbability: number
+): OptimizerCandidate {
+  const drags = new Float64Array(paths);
+  let shortfallPaths = 0;
+  for (let index = 0; index < paths; index++) {
+    const path = samplePath();
+    const result = runSimulation(params, path.dayEvents, {
+      pools: path.pools,
+      calendar: pathSettings,
+      baseRates: path.baseRates,
+    });
+    drags[index] = totalDrag(result);
+    if (shortfallDays(result) > 0) shortfallPaths += 1;
+  }
+  const sorted = Float64Array.from(drags).sort();
+  const shortfallProbability = shortfallPaths / paths;
+  return {
+    cashPool: params.cashPool,
+    startingCash: params.startingCash,
+    meanDrag: sorted.reduce((sum, drag) => sum + drag, 0) / sorted.length,
+    p95Drag: percentile(sorted, 95),
+    shortfallProbability,
+    feasible: shortfallProbability <= maxShortfallProbability,
+  };
+}
+
+/**
+ * Feasible candidates beat infeasible ones, then lower drag wins; among
+ * infeasible candidates the lower shortfall risk wins.
+ */
+function isBetter(candidate: OptimizerCandidate, best: OptimizerCandidate) {
+  if (candidate.feasible !== best.feasible) return candidate.feasible;
+  if (!candidate.feasible) {
+    return candidate.shortfallProbability < best.shortfallProbability;
+  }
+  return candidate.meanDrag < best.meanDrag;
+}
+
+function efficientFrontier(candidates: OptimizerCandidate[]) {
+  const sorted = [...candidates].sort(
+    (a, b) =>
+      a.shortfallProbability - b.shortfallProbability || a.meanDrag - b.meanDrag
+  );
+  const frontier: OptimizerCandidate[] = [];
+  for (const candidate of sorted) {
+    const last = frontier[frontier.length - 1];
+    if (!last || candidate.meanDrag < last.meanDrag) frontier.push(candidate);
+  }
+  return frontier;
+}
+
+function candidateKey(
+  cashPool: number,
+  startingCash: Record<PoolKey, number>,
+  pools: PoolConfig[]
+) {
+  return [cashPool, ...pools.map((pool) => startingCash[pool.key])].join("|");
+}
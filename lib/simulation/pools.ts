@@ -0,0 +1,32 @@
+import {
+  CASH_POOL_KEY,
+  DEFAULT_EVENT_SETTINGS,
+  POOL_COLORS,
+} from "./constants";
+import type { PoolConfig } from "./types";
+
+/**
+ * Creates a new pool with a key and colour that do not clash with the
+ * existing pools.
+ */
+export function createPool(existing: PoolConfig[]): PoolConfig {
+  const keys = new Set(existing.map((pool) => pool.key));
+  let index = existing.length + 1;
+  while (keys.has(`POOL${index}`) || `POOL${index}` === CASH_POOL_KEY) {
+    index += 1;
+  }
+  const usedColors = new Set(existing.map((pool) => pool.color));
+  const color =
+    POOL_COLORS.find((candidate) => !usedColors.has(candidate)) ??
+    POOL_COLORS[existing.length % POOL_COLORS.length];
+
+  return {
+    key: `POOL${index}`,
+    name: `Pool ${index}`,
+    color,
+    expectedReturn: 8.0,
+    returnVolatility: 0,
+    returnCorrelation: 0.5,
+    events: DEFAULT_EVENT_SETTINGS,
+  };
+}
@@ -0,0 +1,41 @@
+/** Source of uniformly distributed numbers in `[0, 1)`. */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic PRNG (mulberry32) from a 32-bit seed. The same
+ * seed always yields the same sequence, so event paths can be replayed.
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Draws a standard normal variate (Box–Muller) from two uniform draws. */
+export function standardNormal(random: RandomSource) {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Picks a fresh seed for a new run. */
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Parses a user-supplied seed, returning `null` unless it is a whole number
+ * in the unsigned 32-bit range.
+ */
+export function parseSeed(value: string | null | undefined) {
+  if (value == null) return null;
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= 0xffffffff ? seed : null;
+}
@@ -0,0 +1,146 @@
+import { addDays, daysBetween, isIsoDate } from "./calendar";
+import { createRandom, standardNormal, type RandomSource } from "./random";
+import type { BaseRateCurve, RateBasis, RatePoint } from "./types";
+
+export type RateCurveParseResult =
+  | { ok: true; points: RatePoint[] }
+  | { ok: false; error: string };
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * The base rate for each of `days` calendar days from `startDate`, in %.
+ * Simulated curves draw their shocks from `random`; without one they follow
+ * their expected path, reverting smoothly to the long-run rate.
+ */
+export function baseRatePath(
+  curve: BaseRateCurve,
+  startDate: string,
+  days: number,
+  random?: RandomSource
+): number[] {
+  const points = [...curve.points].sort((a, b) => a.date.localeCompare(b.date));
+  switch (curve.kind) {
+    case "flat":
+      return Array.from({ length: days }, () => curve.rate);
+    case "steps":
+      return Array.from({ length: days }, (_, index) =>
+        stepRate(curve.rate, points, addDays(startDate, index))
+      );
+    case "curve":
+      return Array.from({ length: days }, (_, index) =>
+        curveRate(curve.rate, startDate, points, addDays(startDate, index))
+      );
+    case "simulated":
+      return simulatePath(curve, days, random);
+  }
+}
+
+/** The annual rate in %: fixed, or the base rate plus the spread. */
+export function effectiveRate(fixed: number, basis: RateBasis, base: number) {
+  return basis.floating ? Math.max(0, base + basis.spread / 100) : fixed;
+}
+
+/**
+ * A random source for simulated base rates, seeded apart from the event
+ * stream so the same seed replays the same cash flows with or without them.
+ */
+export function createRateRandom(seed: number) {
+  return createRandom((seed ^ 0x5bd1e995) >>> 0);
+}
+
+/**
+ * Parses a forward curve as CSV with `date` and `rate` columns, rates in %.
+ */
+export function parseRateCurveCsv(text: string): RateCurveParseResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  const headers = (lines[0] ?? "")
+    .split(",")
+    .map((header) => header.trim().toLowerCase());
+  const dateColumn = headers.indexOf("date");
+  const rateColumn = headers.indexOf("rate");
+  if (dateColumn < 0 || rateColumn < 0) {
+    return {
+      ok: false,
+      error: "The header must name date and rate columns.",
+    };
+  }
+  const points: RatePoint[] = [];
+  for (const [index, line] of lines.slice(1).entries()) {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const date = cells[dateColumn] ?? "";
+    const rate =
+      cells[rateColumn] === "" ? Number.NaN : Number(cells[rateColumn]);
+    if (!isIsoDate(date) || !Number.isFinite(rate)) {
+      return {
+        ok: false,
+        error: `Row ${index + 1} needs a YYYY-MM-DD date and a rate.`,
+      };
+    }
+    points.push({ date, rate });
+  }
+  if (points.length === 0) {
+    return { ok: false, error: "The curve has no points." };
+  }
+  return { ok: true, points };
+}
+
+function stepRate(initial: number, points: RatePoint[], date: string) {
+  let rate = initial;
+  for (const point of points) {
+    if (point.date > date) break;
+    rate = point.rate;
+  }
+  return rate;
+}
+
+/**
+ * Linear interpolation between curve points, starting from `initial` on the
+ * start date and holding the last point flat.
+ */
+function curveRate(
+  initial: number,
+  startDate: string,
+  points: RatePoint[],
+  date: string
+) {
+  let previous: RatePoint = { date: startDate, rate: initial };
+  for (const point of points) {
+    if (point.date <= startDate) continue;
+    if (point.date >= date) {
+      const span = daysBetween(previous.date, point.date);
+      if (span === 0) return point.rate;
+      const elapsed = daysBetween(previous.date, date);
+      return previous.rate + ((point.rate - previous.rate) * elapsed) / span;
+    }
+    previous = point;
+  }
+  return previous.rate;
+}
+
+/** Exact daily discretisation of an Ornstein–Uhlenbeck (Vasicek) process. */
+function simulatePath(
+  curve: BaseRateCurve,
+  days: number,
+  random?: RandomSource
+) {
+  const step = 1 / DAYS_PER_YEAR;
+  const decay = Math.exp(-curve.meanReversion * step);
+  const shockScale =
+    curve.meanReversion > 0
+      ? curve.volatility *
+        Math.sqrt((1 - decay * decay) / (2 * curve.meanReversion))
+      : curve.volatility * Math.sqrt(step);
+  const rates: number[] = [];
+  let rate = curve.rate;
+  for (let day = 0; day < days; day++) {
+    rates.push(rate);
+    const shock = random ? standardNormal(random) : 0;
+    rate = curve.longRunRate + (rate - curve.longRunRate) * decay;
+    rate += shockScale * shock;
+  }
+  return rates;
+}
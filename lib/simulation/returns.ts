@@ -0,0 +1,31 @@
+import { createRandom, standardNormal, type RandomSource } from "./random";
+import type { PoolConfig } from "./types";
+
+/**
+ * A random source for expected return draws, seeded apart from the event
+ * and rate streams so adding return uncertainty leaves both unchanged.
+ */
+export function createReturnRandom(seed: number) {
+  return createRandom((seed ^ 0x27d4eb2f) >>> 0);
+}
+
+/**
+ * Draws one expected return per pool from a one-factor normal model: each
+ * pool's shock mixes a shared market shock with its own by
+ * `returnCorrelation`, scaled by `returnVolatility`.
+ */
+export function sampleExpectedReturns(
+  pools: PoolConfig[],
+  random: RandomSource
+): PoolConfig[] {
+  const market = standardNormal(random);
+  return pools.map((pool) => {
+    const own = standardNormal(random);
+    const loading = pool.returnCorrelation;
+    const shock = loading * market + Math.sqrt(1 - loading * loading) * own;
+    return {
+      ...pool,
+      expectedReturn: pool.expectedReturn + pool.returnVolatility * shock,
+    };
+  });
+}
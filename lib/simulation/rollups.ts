@@ -0,0 +1,170 @@
+import type { DailyRecord, PoolKey, PoolState } from "./types";
+
+export type RollupPeriod = "daily" | "monthly" | "quarterly" | "annual";
+
+/**
+ * A `DailyRecord` covering a whole period. Balances and cumulative drag are
+ * as of the period's last day (`date`); flows such as activity, draws,
+ * repayments, interest, fees and drag are summed over the period, rates
+ * are averaged, shortfalls and alerts list every day's, and the cash walk
+ * runs from the first day's opening to the last day's closing.
+ */
+export interface PeriodRecord extends DailyRecord {
+  /** Label such as `2025-01-02`, `Jan 2025`, `Q1 2025` or `2025`. */
+  period: string;
+  startDate: string;
+  /** Calendar days covered; the first and last periods may be partial. */
+  days: number;
+  businessDays: number;
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Groups daily records into calendar months, quarters or years. */
+export function rollUpRecords(
+  records: DailyRecord[],
+  period: RollupPeriod
+): PeriodRecord[] {
+  const groups: DailyRecord[][] = [];
+  let currentLabel: string | null = null;
+  for (const record of records) {
+    const label = periodLabel(record.date, period);
+    if (label !== currentLabel) {
+      groups.push([]);
+      currentLabel = label;
+    }
+    groups[groups.length - 1].push(record);
+  }
+  return groups.map((group) => combine(group, period));
+}
+
+/** Label of the period containing an ISO date. */
+export function periodLabel(date: string, period: RollupPeriod) {
+  const year = date.slice(0, 4);
+  const month = Number(date.slice(5, 7));
+  switch (period) {
+    case "daily":
+      return date;
+    case "monthly":
+      return `${MONTHS[month - 1]} ${year}`;
+    case "quarterly":
+      return `Q${Math.ceil(month / 3)} ${year}`;
+    case "annual":
+      return year;
+  }
+}
+
+function combine(group: DailyRecord[], period: RollupPeriod): PeriodRecord {
+  const first = group[0];
+  const last = group[group.length - 1];
+  const totals = { ...last.totals };
+  for (const key of [
+    "borrowed",
+    "borrowedFromCashPool",
+    "borrowedFromLine",
+    "repaid",
+    "repaidToLine",
+    "lineInterest",
+    "capitalizedInterest",
+    "undrawnFee",
+    "upfrontFee",
+    "drag",
+  ] as const) {
+    totals[key] = sum(group, (record) => record.totals[key]);
+  }
+  totals.interestByPool = sumByKey(
+    group,
+    (record) => record.totals.interestByPool
+  );
+
+  return {
+    ...last,
+    holiday: undefined,
+    businessDay: group.some((record) => record.businessDay),
+    pools: last.pools.map(
+      (pool): PoolState => ({
+        ...pool,
+        interestEarned: sum(
+          group,
+          (record) => findPool(record, pool.key)?.interestEarned ?? 0
+        ),
+      })
+    ),
+    cashPool: {
+      ...last.cashPool,
+      interestEarned: sum(group, (record) => record.cashPool.interestEarned),
+    },
+    facility: { ...last.facility },
+    shortfalls: group.flatMap((record) => record.shortfalls),
+    alerts: group.flatMap((record) => record.alerts),
+    rates: {
+      base: average(group, (record) => record.rates.base),
+      borrow: average(group, (record) => record.rates.borrow),
+      line: average(group, (record) => record.rates.line),
+      idle: average(group, (record) => record.rates.idle),
+    },
+    activity: sumByKey(group, (record) => record.activity),
+    totals,
+    reconciliation: {
+      opening: first.reconciliation.opening,
+      interestCredited: sum(
+        group,
+        (record) => record.reconciliation.interestCredited
+      ),
+      externalFlows: sum(
+        group,
+        (record) => record.reconciliation.externalFlows
+      ),
+      lineDrawn: sum(group, (record) => record.reconciliation.lineDrawn),
+      lineRepaid: sum(group, (record) => record.reconciliation.lineRepaid),
+      lineInterestPaid: sum(
+        group,
+        (record) => record.reconciliation.lineInterestPaid
+      ),
+      closing: last.reconciliation.closing,
+      residual: sum(group, (record) => record.reconciliation.residual),
+    },
+    period: periodLabel(first.date, period),
+    startDate: first.date,
+    days: group.length,
+    businessDays: group.filter((record) => record.businessDay).length,
+  };
+}
+
+function findPool(record: DailyRecord, key: PoolKey) {
+  return record.pools.find((pool) => pool.key === key);
+}
+
+function sum(group: DailyRecord[], value: (record: DailyRecord) => number) {
+  return group.reduce((total, record) => total + value(record), 0);
+}
+
+function average(group: DailyRecord[], value: (record: DailyRecord) => number) {
+  return sum(group, value) / group.length;
+}
+
+function sumByKey(
+  group: DailyRecord[],
+  values: (record: DailyRecord) => Record<PoolKey, number>
+) {
+  const totals: Record<PoolKey, number> = {};
+  for (const record of group) {
+    for (const [key, value] of Object.entries(values(record))) {
+      totals[key] = (totals[key] ?? 0) + value;
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,331 @@
+import {
+  DEFAULT_BASE_RATE,
+  DEFAULT_EVENT_MODEL,
+  DEFAULT_EVENT_SETTINGS,
+  DEFAULT_PATH_SETTINGS,
+  FUNDING_PRESETS,
+} from "./constants";
+import { parseScheduleJson, type CashFlowSchedule } from "./schedule";
+import type {
+  BaseRateCurve,
+  EventModel,
+  FundingMode,
+  InterestSettlement,
+  PathSettings,
+  PoolConfig,
+  RateBasis,
+  ScenarioConfig,
+} from "./types";
+import {
+  hasErrors,
+  validatePathSettings,
+  validatePool,
+  validateScenario,
+} from "./validation";
+
+/** Current version of the scenario set file format. */
+export const SCENARIO_SET_VERSION = 2;
+
+/**
+ * Everything needed to reproduce an analysis: the scenarios, the pools they
+ * run against, the shared path settings and the event seed, or the imported
+ * cash-flow schedule when one replaces random events.
+ */
+export interface ScenarioSet {
+  name: string;
+  scenarios: ScenarioConfig[];
+  pools: PoolConfig[];
+  pathSettings: PathSettings;
+  seed: number | null;
+  schedule: CashFlowSchedule | null;
+}
+
+/** A scenario set as written to disk or local storage. */
+export interface ScenarioSetFile extends ScenarioSet {
+  version: number;
+  savedAt: string;
+}
+
+export type ScenarioSetLoadResult =
+  | { ok: true; set: ScenarioSet }
+  | { ok: false; error: string };
+
+type RawFile = Record<string, unknown>;
+
+/**
+ * Upgrades a file from version `n` to `n + 1`, indexed by `n`. Add an entry
+ * here whenever a change to the params model needs more than the defaults
+ * that `loadScenarioSet` fills in for missing fields.
+ */
+const MIGRATIONS: Record<number, (file: RawFile) => RawFile> = {
+  // Version 1 predates holiday calendars; its schedules were only checked
+  // against weekends.
+  1: (file) => ({
+    ...file,
+    pathSettings: {
+      ...(isRecord(file.pathSettings) ? file.pathSettings : {}),
+      calendar: "weekends",
+    },
+  }),
+};
+
+const FUNDING_MODES = Object.keys(FUNDING_PRESETS) as FundingMode[];
+
+export function toScenarioSetFile(set: ScenarioSet): ScenarioSetFile {
+  return {
+    version: SCENARIO_SET_VERSION,
+    savedAt: new Date().toISOString(),
+    ...set,
+  };
+}
+
+export function serializeScenarioSet(set: ScenarioSet) {
+  return JSON.stringify(toScenarioSetFile(set), null, 2);
+}
+
+/** Parses exported JSON text; see `loadScenarioSet`. */
+export function parseScenarioSet(text: string): ScenarioSetLoadResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+  return loadScenarioSet(data);
+}
+
+/**
+ * Reads a scenario set file of any supported version. Older files are
+ * migrated step by step, fields added since they were written take the
+ * defaults of their funding mode, and the result is validated with the same
+ * rules as the parameter editor.
+ */
+export function loadScenarioSet(data: unknown): ScenarioSetLoadResult {
+  if (!isRecord(data)) {
+    return { ok: false, error: "The file does not contain a scenario set." };
+  }
+  const version = data.version;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    return { ok: false, error: "The file has no format version." };
+  }
+  if (version > SCENARIO_SET_VERSION) {
+    return {
+      ok: false,
+      error: `The file uses format version ${version}; this app reads up to version ${SCENARIO_SET_VERSION}.`,
+    };
+  }
+
+  let file: RawFile = data;
+  for (let from = version; from < SCENARIO_SET_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) {
+      return {
+        ok: false,
+        error: `Format version ${from} is no longer supported.`,
+      };
+    }
+    file = migrate(file);
+  }
+
+  if (!Array.isArray(file.scenarios) || file.scenarios.length === 0) {
+    return { ok: false, error: "The file has no scenarios." };
+  }
+  if (!Array.isArray(file.pools)) {
+    return { ok: false, error: "The file has no pools." };
+  }
+
+  const pools = file.pools.map(normalizePool);
+  const scenarios = file.scenarios.map(normalizeScenario);
+  const rawPathSettings = isRecord(file.pathSettings) ? file.pathSettings : {};
+  const pathSettings: PathSettings = {
+    ...DEFAULT_PATH_SETTINGS,
+    ...rawPathSettings,
+    holidays: Array.isArray(rawPathSettings.holidays)
+      ? rawPathSettings.holidays.map(String)
+      : DEFAULT_PATH_SETTINGS.holidays,
+    baseRate: normalizeBaseRate(rawPathSettings.baseRate),
+    eventModel: normalizeEventModel(rawPathSettings.eventModel),
+  };
+  const seed =
+    typeof file.seed === "number" &&
+    Number.isInteger(file.seed) &&
+    file.seed >= 0 &&
+    file.seed <= 0xffffffff
+      ? file.seed
+      : null;
+
+  for (const pool of pools) {
+    if (hasErrors(validatePool(pool, pools))) {
+      return {
+        ok: false,
+        error: `Pool "${pool.name || pool.key}" has invalid settings.`,
+      };
+    }
+  }
+  if (new Set(pools.map((pool) => pool.key)).size !== pools.length) {
+    return { ok: false, error: "Two pools share the same key." };
+  }
+  if (
+    new Set(scenarios.map((scenario) => scenario.id)).size !== scenarios.length
+  ) {
+    return { ok: false, error: "Two scenarios share the same id." };
+  }
+  for (const scenario of scenarios) {
+    if (hasErrors(validateScenario(scenario, scenarios))) {
+      return {
+        ok: false,
+        error: `Scenario "${
+          scenario.name || scenario.id
+        }" has invalid parameters.`,
+      };
+    }
+  }
+  if (hasErrors(validatePathSettings(pathSettings, pools))) {
+    return { ok: false, error: "The path settings are invalid." };
+  }
+
+  let schedule: CashFlowSchedule | null = null;
+  if (isRecord(file.schedule)) {
+    const parsed = parseScheduleJson(
+      JSON.stringify(file.schedule),
+      pools,
+      undefined,
+      pathSettings
+    );
+    if (!parsed.ok) {
+      return {
+        ok: false,
+        error: `The cash-flow schedule is invalid: ${parsed.issues[0].message}`,
+      };
+    }
+    schedule = parsed.schedule;
+  }
+
+  return {
+    ok: true,
+    set: {
+      name: typeof file.name === "string" ? file.name : "Imported set",
+      scenarios,
+      pools,
+      pathSettings,
+      seed,
+      schedule,
+    },
+  };
+}
+
+function normalizeScenario(value: unknown, index: number): ScenarioConfig {
+  const raw = isRecord(value) ? value : {};
+  const rawParams = isRecord(raw.params) ? raw.params : {};
+  const funding = FUNDING_MODES.includes(rawParams.funding as FundingMode)
+    ? (rawParams.funding as FundingMode)
+    : "internal";
+  const preset = FUNDING_PRESETS[funding];
+  const rawSettlement = isRecord(rawParams.settlement)
+    ? rawParams.settlement
+    : {};
+  const rawRateBasis = isRecord(rawParams.rateBasis) ? rawParams.rateBasis : {};
+  return {
+    id: typeof raw.id === "string" ? raw.id : `scenario-${index + 1}`,
+    name: typeof raw.name === "string" ? raw.name : "",
+    params: {
+      ...preset,
+      ...rawParams,
+      funding,
+      startingCash: isRecord(rawParams.startingCash)
+        ? (rawParams.startingCash as Record<string, number>)
+        : preset.startingCash,
+      facility: {
+        ...preset.facility,
+        ...(isRecord(rawParams.facility) ? rawParams.facility : {}),
+      },
+      dayCounts: {
+        ...preset.dayCounts,
+        ...(isRecord(rawParams.dayCounts) ? rawParams.dayCounts : {}),
+      },
+      alerts: {
+        ...preset.alerts,
+        ...(isRecord(rawParams.alerts) ? rawParams.alerts : {}),
+      },
+      settlement: {
+        borrow: normalizeSettlement(
+          preset.settlement.borrow,
+          rawSettlement.borrow
+        ),
+        idle: normalizeSettlement(preset.settlement.idle, rawSettlement.idle),
+      },
+      rateBasis: {
+        borrow: normalizeRateBasis(
+          preset.rateBasis.borrow,
+          rawRateBasis.borrow
+        ),
+        line: normalizeRateBasis(preset.rateBasis.line, rawRateBasis.line),
+        idle: normalizeRateBasis(preset.rateBasis.idle, rawRateBasis.idle),
+      },
+    },
+  };
+}
+
+function normalizeSettlement(
+  preset: InterestSettlement,
+  value: unknown
+): InterestSettlement {
+  return { ...preset, ...(isRecord(value) ? value : {}) };
+}
+
+function normalizeRateBasis(preset: RateBasis, value: unknown): RateBasis {
+  return { ...preset, ...(isRecord(value) ? value : {}) };
+}
+
+function normalizeBaseRate(value: unknown): BaseRateCurve {
+  const raw = isRecord(value) ? value : {};
+  return {
+    ...DEFAULT_BASE_RATE,
+    ...raw,
+    points: Array.isArray(raw.points)
+      ? raw.points.filter(isRecord).map((point) => ({
+          date: String(point.date),
+          rate: Number(point.rate),
+        }))
+      : DEFAULT_BASE_RATE.points,
+  };
+}
+
+function normalizeEventModel(value: unknown): EventModel {
+  const raw = isRecord(value) ? value : {};
+  return {
+    correlations: isRecord(raw.correlations)
+      ? Object.fromEntries(
+          Object.entries(raw.correlations).map(([key, correlation]) => [
+            key,
+            Number(correlation),
+          ])
+        )
+      : DEFAULT_EVENT_MODEL.correlations,
+    regime: {
+      ...DEFAULT_EVENT_MODEL.regime,
+      ...(isRecord(raw.regime) ? raw.regime : {}),
+    },
+  };
+}
+
+function normalizePool(value: unknown, index: number): PoolConfig {
+  const raw = isRecord(value) ? value : {};
+  return {
+    key: typeof raw.key === "string" ? raw.key : `POOL${index + 1}`,
+    name: typeof raw.name === "string" ? raw.name : "",
+    color: typeof raw.color === "string" ? raw.color : "",
+    expectedReturn: raw.expectedReturn as number,
+    // Sets saved before return draws existed replay with fixed returns.
+    returnVolatility: (raw.returnVolatility as number | undefined) ?? 0,
+    returnCorrelation: (raw.returnCorrelation as number | undefined) ?? 0,
+    events: {
+      ...DEFAULT_EVENT_SETTINGS,
+      ...(isRecord(raw.events) ? raw.events : {}),
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
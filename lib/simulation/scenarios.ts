@@ -0,0 +1,53 @@
+import { FUNDING_PRESETS } from "./constants";
+import type { FundingMode, ScenarioConfig } from "./types";
+
+/** Whether `funding` holds a reserve in the internal cash pool. */
+export function holdsReserve(funding: FundingMode) {
+  return funding === "internal" || funding === "hybrid";
+}
+
+/** Whether `funding` draws on the external line. */
+export function usesLine(funding: FundingMode) {
+  return funding === "loc" || funding === "hybrid";
+}
+
+/** Creates a scenario from the preset for `funding` with a unique id. */
+export function createScenario(
+  existing: ScenarioConfig[],
+  funding: FundingMode
+): ScenarioConfig {
+  const index = nextScenarioIndex(existing);
+  return {
+    id: `scenario-${index}`,
+    name: uniqueName(existing, `Scenario ${index}`),
+    params: FUNDING_PRESETS[funding],
+  };
+}
+
+/** Copies a scenario's parameters under a new id and name. */
+export function cloneScenario(
+  existing: ScenarioConfig[],
+  source: ScenarioConfig
+): ScenarioConfig {
+  return {
+    id: `scenario-${nextScenarioIndex(existing)}`,
+    name: uniqueName(existing, `${source.name} (copy)`),
+    params: source.params,
+  };
+}
+
+function nextScenarioIndex(existing: ScenarioConfig[]) {
+  const ids = new Set(existing.map((scenario) => scenario.id));
+  let index = existing.length + 1;
+  while (ids.has(`scenario-${index}`)) index += 1;
+  return index;
+}
+
+function uniqueName(existing: ScenarioConfig[], base: string) {
+  const names = new Set(existing.map((scenario) => scenario.name));
+  let name = base;
+  for (let suffix = 2; names.has(name); suffix++) {
+    name = `${base} ${suffix}`;
+  }
+  return name;
+}
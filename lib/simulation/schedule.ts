@@ -0,0 +1,299 @@
+import { daysBetween, isBusinessDay, isIsoDate } from "./calendar";
+import { DEFAULT_PATH_SETTINGS } from "./constants";
+import type { CalendarSettings, DayEvent, PoolConfig, PoolKey } from "./types";
+import { MAX_DAYS } from "./validation";
+
+/**
+ * One dated external cash flow for a pool, in $ millions. Negative amounts
+ * are capital calls, positive amounts are distributions.
+ */
+export interface ScheduledFlow {
+  /** ISO calendar date, `YYYY-MM-DD`. */
+  date: string;
+  pool: PoolKey;
+  amount: number;
+}
+
+/**
+ * A deterministic cash-flow schedule, such as a historical ledger or a
+ * forward commitment pacing plan, replayed in place of random events.
+ */
+export interface CashFlowSchedule {
+  name: string;
+  /** Day 1 of the simulation; the earliest flow date unless set earlier. */
+  startDate: string;
+  /** Last simulated day; the latest flow date unless set later. */
+  endDate: string;
+  flows: ScheduledFlow[];
+}
+
+/** A problem with one input row; rows are numbered from 1 after the header. */
+export interface ScheduleIssue {
+  row: number;
+  message: string;
+}
+
+export type ScheduleParseResult =
+  | { ok: true; schedule: CashFlowSchedule }
+  | { ok: false; issues: ScheduleIssue[] };
+
+type RawFlow = Record<string, unknown>;
+
+/** The calendar a schedule's flow dates must be business days under. */
+type ScheduleCalendar = Pick<CalendarSettings, "calendar" | "holidays">;
+
+/**
+ * Parses a CSV schedule with a header row naming `date`, `pool` and
+ * `amount` columns, plus an optional `type` column (`call` or
+ * `distribution`) that sets the sign of the amount. Pools may be given by
+ * key or name. Flows must fall on business days of `calendar`. Every row is
+ * checked; any issue rejects the whole file so a backtest never runs on a
+ * partial ledger.
+ */
+export function parseScheduleCsv(
+  text: string,
+  pools: PoolConfig[],
+  name = "Imported schedule",
+  calendar: ScheduleCalendar = DEFAULT_PATH_SETTINGS
+): ScheduleParseResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  if (lines.length === 0) {
+    return { ok: false, issues: [{ row: 0, message: "The file is empty." }] };
+  }
+  const headers = splitCsvLine(lines[0]).map((header) =>
+    header.trim().toLowerCase()
+  );
+  const missing = ["date", "pool", "amount"].filter(
+    (column) => !headers.includes(column)
+  );
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      issues: [
+        {
+          row: 0,
+          message: `The header is missing the ${missing.join(", ")} column${
+            missing.length === 1 ? "" : "s"
+          }.`,
+        },
+      ],
+    };
+  }
+  const rows = lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(
+      headers.map((header, index) => [header, cells[index]?.trim() ?? ""])
+    );
+  });
+  return buildSchedule(rows, pools, name, calendar);
+}
+
+/**
+ * Parses a JSON schedule: either an array of `{ date, pool, amount, type? }`
+ * rows or an object with a `flows` array and optional `name`, `startDate`
+ * and `endDate`. Validation matches `parseScheduleCsv`.
+ */
+export function parseScheduleJson(
+  text: string,
+  pools: PoolConfig[],
+  name = "Imported schedule",
+  calendar: ScheduleCalendar = DEFAULT_PATH_SETTINGS
+): ScheduleParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return {
+      ok: false,
+      issues: [{ row: 0, message: "The file is not valid JSON." }],
+    };
+  }
+  const container =
+    typeof data === "object" && data !== null && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : { flows: data };
+  if (!Array.isArray(container.flows)) {
+    return {
+      ok: false,
+      issues: [{ row: 0, message: "Expected an array of flows." }],
+    };
+  }
+  const rows = container.flows.map((flow) =>
+    typeof flow === "object" && flow !== null ? (flow as RawFlow) : {}
+  );
+  return buildSchedule(
+    rows,
+    pools,
+    typeof container.name === "string" ? container.name : name,
+    calendar,
+    {
+      startDate: container.startDate,
+      endDate: container.endDate,
+    }
+  );
+}
+
+/**
+ * Expands a schedule into one `DayEvent` per calendar day from `startDate`
+ * to `endDate`, summing flows that share a pool and date.
+ */
+export function scheduleToDayEvents(
+  schedule: CashFlowSchedule,
+  pools: PoolConfig[]
+): DayEvent[] {
+  const days = scheduleDays(schedule);
+  const events: DayEvent[] = Array.from({ length: days }, () =>
+    Object.fromEntries(pools.map((pool) => [pool.key, 0]))
+  );
+  for (const flow of schedule.flows) {
+    const index = daysBetween(schedule.startDate, flow.date);
+    const entry = events[index];
+    if (entry && flow.pool in entry) entry[flow.pool] += flow.amount;
+  }
+  return events;
+}
+
+/** Number of simulated days a schedule covers, inclusive of both ends. */
+export function scheduleDays(schedule: CashFlowSchedule) {
+  return daysBetween(schedule.startDate, schedule.endDate) + 1;
+}
+
+function buildSchedule(
+  rows: RawFlow[],
+  pools: PoolConfig[],
+  name: string,
+  calendar: ScheduleCalendar,
+  bounds: { startDate?: unknown; endDate?: unknown } = {}
+): ScheduleParseResult {
+  const issues: ScheduleIssue[] = [];
+  const flows: ScheduledFlow[] = [];
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const date = String(raw.date ?? "").trim();
+    const poolRef = String(raw.pool ?? "").trim();
+    const amountText = String(raw.amount ?? "").trim();
+    const type = String(raw.type ?? "")
+      .trim()
+      .toLowerCase();
+
+    if (!isIsoDate(date)) {
+      issues.push({ row, message: `"${date}" is not a YYYY-MM-DD date.` });
+      return;
+    }
+    if (!isBusinessDay(date, calendar)) {
+      issues.push({ row, message: `${date} falls on a weekend or holiday.` });
+      return;
+    }
+    const pool = findPool(pools, poolRef);
+    if (!pool) {
+      issues.push({ row, message: `Unknown pool "${poolRef}".` });
+      return;
+    }
+    const amount = amountText === "" ? Number.NaN : Number(amountText);
+    if (!Number.isFinite(amount)) {
+      issues.push({ row, message: `"${amountText}" is not a number.` });
+      return;
+    }
+    if (type !== "" && type !== "call" && type !== "distribution") {
+      issues.push({
+        row,
+        message: `Type must be "call" or "distribution", not "${type}".`,
+      });
+      return;
+    }
+    const signed =
+      type === "call"
+        ? -Math.abs(amount)
+        : type === "distribution"
+        ? Math.abs(amount)
+        : amount;
+    flows.push({ date, pool: pool.key, amount: signed });
+  });
+
+  if (rows.length === 0) {
+    issues.push({ row: 0, message: "The schedule has no flows." });
+  }
+  for (const [key, value] of Object.entries(bounds)) {
+    if (value !== undefined && !isIsoDate(String(value))) {
+      issues.push({ row: 0, message: `${key} is not a YYYY-MM-DD date.` });
+    }
+  }
+  if (issues.length > 0) return { ok: false, issues };
+
+  const dates = flows.map((flow) => flow.date).sort();
+  const startDate = earliest(dates[0], bounds.startDate as string | undefined);
+  const endDate = latest(
+    dates[dates.length - 1],
+    bounds.endDate as string | undefined
+  );
+  if (daysBetween(startDate, endDate) + 1 > MAX_DAYS) {
+    return {
+      ok: false,
+      issues: [
+        {
+          row: 0,
+          message: `The schedule spans more than ${MAX_DAYS} days.`,
+        },
+      ],
+    };
+  }
+  return {
+    ok: true,
+    schedule: {
+      name,
+      startDate,
+      endDate,
+      flows: [...flows].sort((a, b) => a.date.localeCompare(b.date)),
+    },
+  };
+}
+
+function findPool(pools: PoolConfig[], reference: string) {
+  const normalized = reference.toLowerCase();
+  return pools.find(
+    (pool) =>
+      pool.key.toLowerCase() === normalized ||
+      pool.name.trim().toLowerCase() === normalized
+  );
+}
+
+function earliest(date: string, bound?: string) {
+  return bound && bound < date ? bound : date;
+}
+
+function latest(date: string, bound?: string) {
+  return bound && bound > date ? bound : date;
+}
+
+/** Splits one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PARAMS,
+  DEFAULT_PATH_SETTINGS,
+  DEFAULT_POOLS,
+  DEFAULT_SCENARIOS,
+} from "./constants";
+import {
+  STRESS_TESTS,
+  applyStressTest,
+  runStressTests,
+  type StressShock,
+  type StressTest,
+} from "./stress";
+import type { DayEvent } from "./types";
+
+// Every pool is called on odd days and paid a distribution on even days, so
+// each shock has events to act on wherever its window falls.
+const EVENTS: DayEvent[] = Array.from(
+  { length: DEFAULT_PARAMS.days },
+  (_, index) =>
+    Object.fromEntries(
+      DEFAULT_POOLS.map((pool) => [pool.key, index % 2 === 0 ? -2 : 1.5])
+    )
+);
+
+function inWindow(day: number, shock: { startDay: number; days: number }) {
+  return day >= shock.startDay && day < shock.startDay + shock.days;
+}
+
+/** Checks the events or rates one shock targets against the base stream. */
+function expectShockApplied(
+  shock: StressShock,
+  shocked: ReturnType<typeof applyStressTest>
+) {
+  switch (shock.kind) {
+    case "callSurge": {
+      const day = EVENTS.findIndex(
+        (entry, index) => inWindow(index + 1, shock) && entry.PE < 0
+      );
+      expect(day).toBeGreaterThanOrEqual(0);
+      expect(shocked.dayEvents[day].PE).toBeLessThan(EVENTS[day].PE);
+      break;
+    }
+    case "distributionFreeze": {
+      const day = EVENTS.findIndex(
+        (entry, index) => inWindow(index + 1, shock) && entry.PE > 0
+      );
+      expect(day).toBeGreaterThanOrEqual(0);
+      for (const amount of Object.values(shocked.dayEvents[day])) {
+        expect(amount).toBeLessThanOrEqual(0);
+      }
+      break;
+    }
+    case "rateShock":
+      expect(shocked.rateShifts[shock.startDay - 1]).toBeGreaterThanOrEqual(
+        shock.bps / 100
+      );
+      expect(shocked.rateShifts[EVENTS.length - 1]).toBeGreaterThanOrEqual(
+        shock.bps / 100
+      );
+      break;
+    case "commitmentDraw": {
+      const key = shock.pool ?? DEFAULT_POOLS[0].key;
+      const day = shock.startDay - 1;
+      expect(shocked.dayEvents[day][key]).toBeLessThanOrEqual(
+        EVENTS[day][key] - (shock.amount ?? DEFAULT_PARAMS.facility.commitment)
+      );
+      break;
+    }
+  }
+}
+
+describe("predefined stress tests", () => {
+  it.each(STRESS_TESTS)("$name applies on the default horizon", (test) => {
+    const shocked = applyStressTest(
+      test,
+      EVENTS,
+      DEFAULT_POOLS,
+      DEFAULT_PARAMS.facility
+    );
+    expect(shocked.applied).toBe(true);
+    for (const shock of test.shocks) {
+      expectShockApplied(shock, shocked);
+    }
+  });
+
+  it("all change every scenario's drag on the default horizon", () => {
+    const report = runStressTests({
+      scenarios: DEFAULT_SCENARIOS,
+      pools: DEFAULT_POOLS,
+      calendar: DEFAULT_PATH_SETTINGS,
+      dayEvents: EVENTS,
+    });
+    for (const test of report.tests) {
+      expect(test.applied, test.name).toBe(true);
+      for (const scenario of test.scenarios) {
+        expect(scenario.incrementalDrag, test.name).not.toBe(0);
+      }
+    }
+  });
+});
+
+describe("applyStressTest", () => {
+  const late: StressTest = {
+    id: "late",
+    name: "Late rate shock",
+    description: "Rates rise after the run has ended.",
+    shocks: [{ kind: "rateShock", startDay: EVENTS.length + 1, bps: 100 }],
+  };
+
+  it("leaves the base events untouched", () => {
+    const before = JSON.stringify(EVENTS);
+    applyStressTest(
+      STRESS_TESTS[0],
+      EVENTS,
+      DEFAULT_POOLS,
+      DEFAULT_PARAMS.facility
+    );
+    expect(JSON.stringify(EVENTS)).toBe(before);
+  });
+
+  it("marks a shock that starts after the last day as not applied", () => {
+    const shocked = applyStressTest(
+      late,
+      EVENTS,
+      DEFAULT_POOLS,
+      DEFAULT_PARAMS.facility
+    );
+    expect(shocked.applied).toBe(false);
+    expect(shocked.dayEvents).toEqual(EVENTS);
+    expect(shocked.rateShifts.every((shift) => shift === 0)).toBe(true);
+  });
+
+  it("sizes a full commitment draw from the facility", () => {
+    const draw = STRESS_TESTS.find((test) => test.id === "commitment-draw");
+    if (!draw) throw new Error("missing commitment-draw test");
+    const key = DEFAULT_POOLS[0].key;
+    const small = { ...DEFAULT_PARAMS.facility, commitment: 10 };
+    expect(
+      applyStressTest(draw, EVENTS, DEFAULT_POOLS, small).dayEvents[0][key]
+    ).toBe(EVENTS[0][key] - 10);
+    // A sublimit below the commitment caps the draw; one above it does not.
+    expect(
+      applyStressTest(draw, EVENTS, DEFAULT_POOLS, {
+        ...small,
+        sublimits: { [key]: 4 },
+      }).dayEvents[0][key]
+    ).toBe(EVENTS[0][key] - 4);
+    expect(
+      applyStressTest(draw, EVENTS, DEFAULT_POOLS, {
+        ...small,
+        sublimits: { [key]: 40 },
+      }).dayEvents[0][key]
+    ).toBe(EVENTS[0][key] - 10);
+  });
+
+  it("sizes the draw from each scenario's own commitment", () => {
+    const scenario = DEFAULT_SCENARIOS[0];
+    const withCommitment = (id: string, commitment: number) => ({
+      id,
+      params: {
+        ...scenario.params,
+        facility: { ...scenario.params.facility, commitment },
+      },
+    });
+    const report = runStressTests({
+      scenarios: [withCommitment("small", 10), withCommitment("large", 50)],
+      pools: DEFAULT_POOLS,
+      calendar: DEFAULT_PATH_SETTINGS,
+      dayEvents: EVENTS,
+      tests: STRESS_TESTS.filter((test) => test.id === "commitment-draw"),
+    });
+    const [small, large] = report.tests[0].scenarios;
+    expect(small.incrementalDrag).toBeLessThan(large.incrementalDrag);
+  });
+
+  it("draws a fixed amount whatever the commitment", () => {
+    const fixed: StressTest = {
+      id: "fixed-draw",
+      name: "Fixed draw",
+      description: "The second pool is called for $25M at once.",
+      shocks: [
+        {
+          kind: "commitmentDraw",
+          startDay: 1,
+          amount: 25,
+          pool: DEFAULT_POOLS[1].key,
+        },
+      ],
+    };
+    const key = DEFAULT_POOLS[1].key;
+    const shocked = applyStressTest(fixed, EVENTS, DEFAULT_POOLS, {
+      ...DEFAULT_PARAMS.facility,
+      commitment: 10,
+    });
+    expect(shocked.dayEvents[0][key]).toBe(EVENTS[0][key] - 25);
+  });
+
+  it("reports the test as not applied in the stress report", () => {
+    const report = runStressTests({
+      scenarios: DEFAULT_SCENARIOS,
+      pools: DEFAULT_POOLS,
+      calendar: DEFAULT_PATH_SETTINGS,
+      dayEvents: EVENTS,
+      tests: [late],
+    });
+    expect(report.tests[0].applied).toBe(false);
+    for (const scenario of report.tests[0].scenarios) {
+      expect(scenario.incrementalDrag).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,284 @@
+import { runSimulation } from "./engine";
+import { shortfallDays, totalDrag } from "./metrics";
+import { holdsReserve } from "./scenarios";
+import type {
+  CalendarSettings,
+  DayEvent,
+  FacilityTerms,
+  PoolConfig,
+  PoolKey,
+  ScenarioId,
+  SimulationParams,
+  SimulationResult,
+} from "./types";
+
+/**
+ * One shock overlaid on the base event stream. Days are 1-based and windows
+ * run for `days` calendar days from `startDay`.
+ */
+export type StressShock =
+  /** Every capital call in the window is `multiplier` times its size. */
+  | { kind: "callSurge"; startDay: number; days: number; multiplier: number }
+  /** No distributions are paid in the window. */
+  | { kind: "distributionFreeze"; startDay: number; days: number }
+  /** Every rate, fixed or floating, moves by `bps` from `startDay` on. */
+  | { kind: "rateShock"; startDay: number; bps: number }
+  /**
+   * One pool (the first when `pool` is omitted) is called for `amount`
+   * $ millions at once, on top of its other flows. Without an `amount` it
+   * draws its share of the facility: its sublimit, capped at the commitment.
+   */
+  | {
+      kind: "commitmentDraw";
+      startDay: number;
+      amount?: number;
+      pool?: PoolKey;
+    };
+
+export interface StressTest {
+  id: string;
+  name: string;
+  description: string;
+  shocks: StressShock[];
+}
+
+/** How a scenario held up over one run, in $ millions. */
+export interface StressMetrics {
+  /** Largest total borrowing by pools (cash pool and line) on any day. */
+  peakBorrow: number;
+  /**
+   * Lowest end-of-day cash pool balance, negative when overdrawn; `null`
+   * for funding modes that hold no reserve unless the cash pool was
+   * overdrawn.
+   */
+  minCashPool: number | null;
+  /**
+   * Days on which a pool was left with an unfunded deficit or the cash pool
+   * was overdrawn (see `shortfallDays`).
+   */
+  shortfallDays: number;
+  drag: number;
+}
+
+export interface StressScenarioResult extends StressMetrics {
+  id: ScenarioId;
+  /** Drag above the unstressed run of the same scenario. */
+  incrementalDrag: number;
+}
+
+export interface StressTestResult {
+  id: string;
+  name: string;
+  description: string;
+  /** False when a shock starts after the last day and so changed nothing. */
+  applied: boolean;
+  scenarios: StressScenarioResult[];
+}
+
+export interface StressReport {
+  base: (StressMetrics & { id: ScenarioId })[];
+  tests: StressTestResult[];
+}
+
+export interface StressOptions {
+  scenarios: { id: ScenarioId; params: SimulationParams }[];
+  pools: PoolConfig[];
+  calendar: CalendarSettings;
+  /** The base event stream every shock is overlaid on. */
+  dayEvents: DayEvent[];
+  baseRates?: number[];
+  tests?: StressTest[];
+}
+
+/** The predefined shocks, each starting on day 1 so any horizon feels them. */
+export const STRESS_TESTS: StressTest[] = [
+  {
+    id: "call-surge",
+    name: "Call surge",
+    description: "All pools are called at 3× normal size for two weeks.",
+    shocks: [{ kind: "callSurge", startDay: 1, days: 14, multiplier: 3 }],
+  },
+  {
+    id: "distribution-freeze",
+    name: "Distribution freeze",
+    description: "No pool receives a distribution for 90 days.",
+    shocks: [{ kind: "distributionFreeze", startDay: 1, days: 90 }],
+  },
+  {
+    id: "rate-shock",
+    name: "Rates +200bps",
+    description: "Every borrowing and deposit rate rises 200bps overnight.",
+    shocks: [{ kind: "rateShock", startDay: 1, bps: 200 }],
+  },
+  {
+    id: "commitment-draw",
+    name: "Full commitment draw",
+    description:
+      "The first pool is called for its full facility commitment at once.",
+    shocks: [{ kind: "commitmentDraw", startDay: 1 }],
+  },
+  {
+    id: "bad-month",
+    name: "Bad month",
+    description:
+      "For a month, calls double, distributions stop and rates rise 100bps.",
+    shocks: [
+      { kind: "callSurge", startDay: 1, days: 30, multiplier: 2 },
+      { kind: "distributionFreeze", startDay: 1, days: 30 },
+      { kind: "rateShock", startDay: 1, bps: 100 },
+    ],
+  },
+];
+
+/**
+ * Overlays a stress test on an event stream, returning the shocked events,
+ * the daily rate shift in percentage points for `runSimulation`, and
+ * whether every shock started within the stream. Commitment draws without
+ * an amount are sized from `facility`.
+ */
+export function applyStressTest(
+  test: StressTest,
+  dayEvents: DayEvent[],
+  pools: PoolConfig[],
+  facility: FacilityTerms
+) {
+  const events = dayEvents.map((entry) => ({ ...entry }));
+  const rateShifts = dayEvents.map(() => 0);
+  const inWindow = (index: number, shock: { startDay: number; days: number }) =>
+    index + 1 >= shock.startDay && index + 1 < shock.startDay + shock.days;
+
+  for (const shock of test.shocks) {
+    switch (shock.kind) {
+      case "callSurge":
+      case "distributionFreeze":
+        events.forEach((entry, index) => {
+          if (!inWindow(index, shock)) return;
+          for (const [key, amount] of Object.entries(entry)) {
+            if (shock.kind === "callSurge" && amount < 0) {
+              entry[key] = amount * shock.multiplier;
+            } else if (shock.kind === "distributionFreeze" && amount > 0) {
+              entry[key] = 0;
+            }
+          }
+        });
+        break;
+      case "rateShock":
+        for (
+          let index = shock.startDay - 1;
+          index < rateShifts.length;
+          index++
+        ) {
+          rateShifts[index] += shock.bps / 100;
+        }
+        break;
+      case "commitmentDraw": {
+        const key = shock.pool ?? pools[0]?.key;
+        const entry = events[shock.startDay - 1];
+        if (key !== undefined && entry) {
+          const amount =
+            shock.amount ??
+            Math.min(
+              facility.sublimits[key] ?? facility.commitment,
+              facility.commitment
+            );
+          entry[key] = (entry[key] ?? 0) - amount;
+        }
+        break;
+      }
+    }
+  }
+  return {
+    dayEvents: events,
+    rateShifts,
+    applied: shocksApplied(test, dayEvents.length),
+  };
+}
+
+function shocksApplied(test: StressTest, days: number) {
+  return test.shocks.every(
+    (shock) => shock.startDay >= 1 && shock.startDay <= days
+  );
+}
+
+/**
+ * Runs every scenario over the base event stream and over each stress test
+ * overlaid on it, reporting how each scenario held up and the drag each
+ * shock added. Shocks are overlaid per scenario, as commitment draws depend
+ * on its facility.
+ */
+export function runStressTests({
+  scenarios,
+  pools,
+  calendar,
+  dayEvents,
+  baseRates = [],
+  tests = STRESS_TESTS,
+}: StressOptions): StressReport {
+  const days = dayEvents.length;
+  const base = scenarios.map((scenario) => ({
+    id: scenario.id,
+    ...stressMetrics(
+      scenario.params,
+      runSimulation({ ...scenario.params, days }, dayEvents, {
+        pools,
+        calendar,
+        baseRates,
+      })
+    ),
+  }));
+
+  return {
+    base,
+    tests: tests.map((test) => ({
+      id: test.id,
+      name: test.name,
+      description: test.description,
+      applied: shocksApplied(test, days),
+      scenarios: scenarios.map((scenario, index) => {
+        const shocked = applyStressTest(
+          test,
+          dayEvents,
+          pools,
+          scenario.params.facility
+        );
+        const metrics = stressMetrics(
+          scenario.params,
+          runSimulation({ ...scenario.params, days }, shocked.dayEvents, {
+            pools,
+            calendar,
+            baseRates,
+            rateShifts: shocked.rateShifts,
+          })
+        );
+        return {
+          id: scenario.id,
+          ...metrics,
+          incrementalDrag: metrics.drag - base[index].drag,
+        };
+      }),
+    })),
+  };
+}
+
+function stressMetrics(
+  params: SimulationParams,
+  result: SimulationResult
+): StressMetrics {
+  let peakBorrow = 0;
+  let minCashPool = params.cashPool;
+  let overdrawn = false;
+  for (const record of result.records) {
+    const borrow = record.pools.reduce((sum, pool) => sum + pool.borrow, 0);
+    peakBorrow = Math.max(peakBorrow, borrow);
+    minCashPool = Math.min(minCashPool, record.cashPool.cash);
+    if (record.alerts.some((alert) => alert.kind === "cashPoolBreach")) {
+      overdrawn = true;
+    }
+  }
+  return {
+    peakBorrow,
+    minCashPool: holdsReserve(params.funding) || overdrawn ? minCashPool : null,
+    shortfallDays: shortfallDays(result),
+    drag: totalDrag(result),
+  };
+}
@@ -0,0 +1,495 @@
+/** Identifier of a user-defined pool; `"CP"` is reserved for the cash pool. */
+export type PoolKey = string;
+export type ScenarioId = string;
+
+/**
+ * How pools fund deficits in a scenario:
+ * - `prefunded`: pools hold their own starting cash; any shortfall is
+ *   borrowed at the scenario's borrow rate.
+ * - `internal`: pools draw from a central cash pool whose reserve is charged
+ *   cash drag against the average pool expected return.
+ * - `loc`: pools draw on an external line of credit, within its
+ *   `FacilityTerms`, with no reserve held.
+ * - `hybrid`: pools draw on the cash pool down to `cashPoolFloor`, then on
+ *   the external line; repayments settle the line first.
+ */
+export type FundingMode = "prefunded" | "internal" | "loc" | "hybrid";
+
+/**
+ * Day-count convention used to turn an annual rate into daily accruals:
+ * `ACT/360` is usual for bank lines, `ACT/365` for money-market yields.
+ */
+export type DayCount = "ACT/360" | "ACT/365";
+
+/** How often accrued interest settles: every business day or at period end. */
+export type SettlementFrequency = "daily" | "monthly" | "quarterly";
+
+/**
+ * When accrued interest settles and what happens to it then. Interest
+ * settles on every business day (`daily`) or on the last business day of
+ * each month or quarter.
+ */
+export interface InterestSettlement {
+  frequency: SettlementFrequency;
+  /**
+   * Borrowing: interest still unpaid on a settlement date is added to
+   * principal. Idle cash: settled interest is added to the cash balance
+   * instead of being swept out of the pool.
+   */
+  capitalize: boolean;
+}
+
+/**
+ * Whether a rate is the fixed percentage in the params or floats over the
+ * run's base rate. Floating rates are floored at zero.
+ */
+export interface RateBasis {
+  floating: boolean;
+  /** Margin over the base rate, in basis points. */
+  spread: number;
+}
+
+/** A dated base rate, in annual %. */
+export interface RatePoint {
+  date: string;
+  rate: number;
+}
+
+/**
+ * How the base rate moves: `flat` holds `rate`; `steps` changes to each
+ * point's rate on its date; `curve` interpolates linearly between imported
+ * forward-curve points; `simulated` follows a mean-reverting path.
+ */
+export type BaseRateKind = "flat" | "steps" | "curve" | "simulated";
+
+/** The base rate path shared by every scenario, such as SOFR. */
+export interface BaseRateCurve {
+  name: string;
+  kind: BaseRateKind;
+  /** Rate on day 1, in %. */
+  rate: number;
+  points: RatePoint[];
+  /** Level simulated rates revert to, in %. */
+  longRunRate: number;
+  /** Speed of reversion per year. */
+  meanReversion: number;
+  /** Annualised volatility of simulated rates, in percentage points. */
+  volatility: number;
+}
+
+/** Holiday calendar applied on top of weekends. */
+export type BusinessCalendar = "weekends" | "us";
+
+/**
+ * Shape of the synthetic event generator for one pool. Probabilities are
+ * daily percentages and sizes are in $ millions.
+ */
+export interface EventSettings {
+  callProbability: number;
+  distributionProbability: number;
+  minSize: number;
+  maxSize: number;
+  sizeDistribution: SizeDistribution;
+}
+
+/**
+ * How event sizes spread between `minSize` and `maxSize`: a normal centred
+ * on the midpoint, uniform, or a right-skewed lognormal with many small
+ * events and a few large ones.
+ */
+export type SizeDistribution = "normal" | "uniform" | "lognormal";
+
+/**
+ * A calm/stressed market regime for the event generator. Each day the
+ * regime may switch; while stressed, event probabilities are scaled.
+ */
+export interface StressRegime {
+  enabled: boolean;
+  /** Daily chance, in %, that a calm market turns stressed. */
+  stressProbability: number;
+  /** Daily chance, in %, that a stressed market calms. */
+  recoveryProbability: number;
+  /** Multiplier on call probabilities while stressed. */
+  callMultiplier: number;
+  /** Multiplier on distribution probabilities while stressed. */
+  distributionMultiplier: number;
+}
+
+/** Cross-pool behaviour of the synthetic event generator. */
+export interface EventModel {
+  /**
+   * Correlations between pools' daily event rolls, keyed by
+   * `correlationKey`. Pairs left out are uncorrelated.
+   */
+  correlations: Record<string, number>;
+  regime: StressRegime;
+}
+
+/**
+ * A pool (investment sleeve) in the model. Pools are shared by every
+ * scenario; only their starting cash varies by scenario.
+ */
+export interface PoolConfig {
+  key: PoolKey;
+  name: string;
+  color: string;
+  /** Annual expected return, used to price idle cash drag. */
+  expectedReturn: number;
+  /**
+   * Standard deviation of the expected return, in %. Monte Carlo and
+   * optimizer runs draw a return for each path when it is above 0, the
+   * default; single runs use `expectedReturn` as is.
+   */
+  returnVolatility: number;
+  /**
+   * Correlation of the pool's return draws with a market factor shared by
+   * all pools, from -1 to 1. Two pools correlate at the product of their
+   * values, so pairs cannot be set independently.
+   */
+  returnCorrelation: number;
+  events: EventSettings;
+}
+
+/**
+ * Terms of the external credit facility used by `loc` and `hybrid` funding.
+ * Amounts are in $ millions and fees are annual percentages.
+ */
+export interface FacilityTerms {
+  /** Facility cap; draws beyond it are refused as shortfalls. */
+  commitment: number;
+  /** Annual fee charged on the undrawn commitment. */
+  undrawnFee: number;
+  /** One-off arrangement fee as a percentage of the commitment. */
+  upfrontFee: number;
+  /** Facility term in years, over which the upfront fee is amortised. */
+  tenor: number;
+  /** Per-pool draw limits; pools without an entry share the full cap. */
+  sublimits: Record<PoolKey, number>;
+}
+
+/**
+ * Inputs for a single simulation run. Cash balances are in $ millions and
+ * rates are annual percentages (4.0 = 4%).
+ */
+export interface SimulationParams {
+  funding: FundingMode;
+  /** Starting cash per pool; pools without an entry start at zero. */
+  startingCash: Record<PoolKey, number>;
+  cashPool: number;
+  /** Minimum cash pool balance before `hybrid` funding uses the line. */
+  cashPoolFloor: number;
+  /** Rate pools pay on cash pool borrowing. */
+  borrowRate: number;
+  /** Rate on external line draws (`loc` and `hybrid` funding). */
+  lineRate: number;
+  facility: FacilityTerms;
+  idleRate: number;
+  /** Accrual conventions for cash pool borrowing, the line and idle cash. */
+  dayCounts: {
+    borrow: DayCount;
+    line: DayCount;
+    idle: DayCount;
+  };
+  /** Settlement of interest on pool borrowing and on idle cash. */
+  settlement: {
+    borrow: InterestSettlement;
+    idle: InterestSettlement;
+  };
+  /** Fixed or floating basis of `borrowRate`, `lineRate` and `idleRate`. */
+  rateBasis: {
+    borrow: RateBasis;
+    line: RateBasis;
+    idle: RateBasis;
+  };
+  alerts: AlertThresholds;
+  days: number;
+}
+
+/** Limits past which the engine raises liquidity alerts. */
+export interface AlertThresholds {
+  /** Total pool borrowing, in $ millions, above which to warn. */
+  borrowLimit: number;
+  /** Days a pool may stay in debt before it is flagged as slow to repay. */
+  repaymentDays: number;
+  /** Days interest may stay due and unpaid before it is past due. */
+  interestGraceDays: number;
+}
+
+/**
+ * A liquidity warning raised for one day; it repeats on every day the
+ * condition holds. Amounts are in $ millions.
+ */
+export type LiquidityAlert =
+  /** The cash pool is overdrawn by `amount`. */
+  | { kind: "cashPoolBreach"; amount: number }
+  /** Total borrowing is `amount` above `AlertThresholds.borrowLimit`. */
+  | { kind: "borrowLimitBreach"; amount: number }
+  /**
+   * A pool ended the day `amount` below zero, unfunded (see
+   * `ShortfallEvent` for the draws refused).
+   */
+  | { kind: "unfundedDeficit"; pool: PoolKey; amount: number }
+  /** A pool has owed `amount` for `days`, longer than `repaymentDays`. */
+  | { kind: "slowRepayment"; pool: PoolKey; amount: number; days: number }
+  /** `amount` of interest has been due for `days`, past the grace period. */
+  | { kind: "interestPastDue"; pool: PoolKey; amount: number; days: number };
+
+export type AlertKind = LiquidityAlert["kind"];
+
+/** A named funding structure compared against the others. */
+export interface ScenarioConfig {
+  id: ScenarioId;
+  name: string;
+  params: SimulationParams;
+}
+
+/**
+ * Dates of a run. Flows, draws and repayments settle only on business days;
+ * interest and drag accrue on every calendar day.
+ */
+export interface CalendarSettings {
+  /** ISO date of day 1. */
+  startDate: string;
+  calendar: BusinessCalendar;
+  /** Extra non-business ISO dates on top of the calendar's holidays. */
+  holidays: string[];
+}
+
+/**
+ * Settings shared by every scenario in a run, so that all scenarios are
+ * compared on the same event path.
+ */
+export interface PathSettings extends CalendarSettings {
+  days: number;
+  baseRate: BaseRateCurve;
+  eventModel: EventModel;
+}
+
+export interface PoolState {
+  key: PoolKey;
+  name: string;
+  cash: number;
+  /** Total principal outstanding, including `lineBorrow`. */
+  borrow: number;
+  /** Principal outstanding on the external line. */
+  lineBorrow: number;
+  /**
+   * Total unpaid interest, including `lineInterestOwed` and the not yet due
+   * `interestAccrued`; the rest fell due on a settlement date.
+   */
+  interestOwed: number;
+  lineInterestOwed: number;
+  /** Interest accrued since the last settlement date, including the line's. */
+  interestAccrued: number;
+  lineInterestAccrued: number;
+  interestPaid: number;
+  interestEarned: number;
+  /** Idle cash interest earned but not yet settled. */
+  idleInterestAccrued: number;
+  cashDrag: number;
+  /** Idle cash interest earned over the run so far. */
+  idleCredit: number;
+  borrowDrag: number;
+  /** Interest on external line draws, included in `borrowDrag`. */
+  lineDrag: number;
+}
+
+export interface CashPoolState {
+  cash: number;
+  interestEarned: number;
+  /** Idle cash interest earned but not yet settled. */
+  idleInterestAccrued: number;
+  /** Borrow interest the pools have accrued to the cash pool and not paid. */
+  interestReceivable: number;
+  activity: number;
+  cashDrag: number;
+  /** Idle cash interest earned over the run so far. */
+  idleCredit: number;
+  borrowDrag: number;
+}
+
+/** Running state of the external credit facility. */
+export interface FacilityState {
+  /** Undrawn commitment at the end of the day. */
+  available: number;
+  /**
+   * Cumulative drag by cost component, in $ millions. Line interest is also
+   * part of each pool's `borrowDrag`; the fees are charged only here.
+   */
+  interestDrag: number;
+  undrawnFeeDrag: number;
+  upfrontFeeDrag: number;
+}
+
+/**
+ * A deficit the facility could not fund because a draw would breach the
+ * commitment or the pool's sublimit. The unfunded amount stays outstanding
+ * as negative pool cash until later inflows or draws cover it.
+ */
+export interface ShortfallEvent {
+  pool: PoolKey;
+  amount: number;
+  limit: "commitment" | "sublimit";
+}
+
+/**
+ * One day's walk of the cash held across the pools and the cash pool, in
+ * $ millions. Draws, repayments and interest between the two cancel out, so
+ * only money entering or leaving the group moves the total.
+ */
+export interface CashReconciliation {
+  /** Pool and cash pool cash at the start of the day. */
+  opening: number;
+  /** Idle interest credited to the pools and the cash pool this morning. */
+  interestCredited: number;
+  /** Capital calls and distributions settled. */
+  externalFlows: number;
+  lineDrawn: number;
+  /** Line principal repaid. */
+  lineRepaid: number;
+  lineInterestPaid: number;
+  /** Pool and cash pool cash at the end of the day. */
+  closing: number;
+  /** Cash unaccounted for by the flows above; zero when cash is conserved. */
+  residual: number;
+}
+
+export interface DailyRecord {
+  day: number;
+  /** ISO calendar date of the day. */
+  date: string;
+  businessDay: boolean;
+  /** Name of the holiday when the date is one. */
+  holiday?: string;
+  pools: PoolState[];
+  cashPool: CashPoolState;
+  facility: FacilityState;
+  shortfalls: ShortfallEvent[];
+  alerts: LiquidityAlert[];
+  /** Annual rates in effect for the day, in %. */
+  rates: {
+    base: number;
+    borrow: number;
+    line: number;
+    idle: number;
+  };
+  /** Net activity per pool key, plus the cash pool under `"CP"`. */
+  activity: Record<PoolKey, number>;
+  totals: {
+    borrowed: number;
+    borrowedFromCashPool: number;
+    borrowedFromLine: number;
+    /** Principal and interest repaid, including `repaidToLine`. */
+    repaid: number;
+    repaidToLine: number;
+    lineInterest: number;
+    /** Unpaid interest added to principal on a settlement date. */
+    capitalizedInterest: number;
+    lineBalance: number;
+    undrawnFee: number;
+    upfrontFee: number;
+    /** Unfunded deficits outstanding across pools at the end of the day. */
+    shortfall: number;
+    interestByPool: Record<PoolKey, number>;
+    drag: number;
+  };
+  reconciliation: CashReconciliation;
+}
+
+export interface PoolSummary {
+  key: PoolKey;
+  name: string;
+  interestPaid: number;
+  endingCash: number;
+  endingBorrow: number;
+  /**
+   * Events that fell on the weekend or holidays at the end of the horizon
+   * and would settle after its last day, in $ millions. They never reach
+   * the pool's cash.
+   */
+  unsettledFlows: number;
+}
+
+export interface SimulationSummary {
+  privatePools: PoolSummary[];
+  cashPool: {
+    interestEarned: number;
+    endingCash: number;
+  };
+  line: {
+    interestPaid: number;
+    endingBalance: number;
+    peakBalance: number;
+    undrawnFees: number;
+    upfrontFees: number;
+    /**
+     * Days that raised an `unfundedDeficit` alert: at least one pool ended
+     * the day with an unfunded deficit, weekends and holidays included.
+     */
+    shortfallDays: number;
+    peakShortfall: number;
+  };
+  totals: {
+    borrowed: number;
+    borrowedFromCashPool: number;
+    borrowedFromLine: number;
+    repaid: number;
+    repaidToLine: number;
+    /** Sum of the pools' `unsettledFlows`. */
+    unsettledFlows: number;
+    days: number;
+  };
+}
+
+/**
+ * A posting to an intercompany loan between a pool and the internal cash
+ * pool. Draws and repayments on the external line are not journaled.
+ */
+export type JournalEntryKind =
+  /** The cash pool lends a pool `amount` to cover its deficit. */
+  | "draw"
+  /** A pool repays `amount` of principal to the cash pool. */
+  | "repayment"
+  /** A day's interest at `borrowRate` on the pool's outstanding principal. */
+  | "interestAccrual"
+  /** A pool pays `amount` of interest that has fallen due. */
+  | "interestPayment"
+  /** Unpaid interest added to principal on a settlement date. */
+  | "interestCapitalized"
+  /**
+   * Idle interest the cash pool earned over a settlement period; it lands in
+   * the balance the next morning when capitalized and is swept out otherwise.
+   */
+  | "idleInterestCredit";
+
+/** One line of the intercompany loan journal. Amounts are in $ millions. */
+export interface JournalEntry {
+  /** Posting order within the run, from 1. */
+  sequence: number;
+  day: number;
+  /** ISO calendar date of the day. */
+  date: string;
+  kind: JournalEntryKind;
+  /** The borrowing pool, or `"CP"` for the cash pool's own interest. */
+  pool: PoolKey;
+  amount: number;
+  /** The pool's principal owed to the cash pool after the posting. */
+  principal: number;
+  /** The pool's unpaid interest owed to the cash pool after the posting. */
+  interestOwed: number;
+  /** The cash pool balance once the posting has settled. */
+  cashPool: number;
+}
+
+export interface SimulationResult {
+  records: DailyRecord[];
+  summary: SimulationSummary;
+  /** Intercompany loan postings in the order the engine made them. */
+  journal: JournalEntry[];
+}
+
+/**
+ * Net external cash flow per pool for one day, in $ millions. Negative
+ * values are capital calls, positive values are distributions.
+ */
+export type DayEvent = Record<PoolKey, number>;
@@ -0,0 +1,320 @@
+import { isIsoDate } from "./calendar";
+import {
+  BASE_RATE_KINDS,
+  CASH_POOL_KEY,
+  DAY_COUNTS,
+  SETTLEMENT_FREQUENCIES,
+  SIZE_DISTRIBUTIONS,
+} from "./constants";
+import { choleskyFactor, correlationMatrix } from "./events";
+import type {
+  BaseRateCurve,
+  EventModel,
+  EventSettings,
+  FacilityTerms,
+  PathSettings,
+  PoolConfig,
+  ScenarioConfig,
+  SimulationParams,
+} from "./types";
+
+/**
+ * Field-level validation messages keyed by parameter name. Per-pool starting
+ * cash uses `startingCash.<PoolKey>` keys; facility terms use
+ * `facility.<field>` and `facility.sublimits.<PoolKey>`; accrual conventions
+ * use `dayCounts.<accrual>`, settlement rules
+ * `settlement.<accrual>.<field>`, floating spreads `rateBasis.<rate>.spread`
+ * and alert limits `alerts.<field>`; the base rate curve uses
+ * `baseRate.<field>`, and the event model `eventModel.correlations.<pair>`
+ * and `eventModel.regime.<field>`.
+ */
+export type ValidationErrors = Record<string, string>;
+
+/** Longest horizon a single run may simulate: ten years with leap days. */
+export const MAX_DAYS = 3653;
+
+export function validateParams(params: SimulationParams): ValidationErrors {
+  const errors: ValidationErrors = {};
+  for (const [key, value] of Object.entries(params.startingCash)) {
+    checkNumber(errors, `startingCash.${key}`, value, { min: 0 });
+  }
+  checkNumber(errors, "cashPool", params.cashPool, { min: 0 });
+  checkNumber(errors, "cashPoolFloor", params.cashPoolFloor, { min: 0 });
+  checkNumber(errors, "borrowRate", params.borrowRate, { min: 0, max: 100 });
+  checkNumber(errors, "lineRate", params.lineRate, { min: 0, max: 100 });
+  checkNumber(errors, "idleRate", params.idleRate, { min: 0, max: 100 });
+  validateFacility(errors, params.facility);
+  for (const [key, value] of Object.entries(params.dayCounts)) {
+    if (!DAY_COUNTS.includes(value)) {
+      errors[`dayCounts.${key}`] = "Choose ACT/360 or ACT/365";
+    }
+  }
+  for (const [key, rule] of Object.entries(params.settlement)) {
+    if (!SETTLEMENT_FREQUENCIES.includes(rule.frequency)) {
+      errors[`settlement.${key}.frequency`] = "Choose a settlement frequency";
+    }
+    if (typeof rule.capitalize !== "boolean") {
+      errors[`settlement.${key}.capitalize`] = "Choose whether to capitalize";
+    }
+  }
+  for (const [key, basis] of Object.entries(params.rateBasis)) {
+    checkNumber(errors, `rateBasis.${key}.spread`, basis.spread, {
+      min: -1000,
+      max: 1000,
+    });
+  }
+  checkNumber(errors, "alerts.borrowLimit", params.alerts.borrowLimit, {
+    min: 0,
+  });
+  checkNumber(errors, "alerts.repaymentDays", params.alerts.repaymentDays, {
+    min: 1,
+    integer: true,
+  });
+  checkNumber(
+    errors,
+    "alerts.interestGraceDays",
+    params.alerts.interestGraceDays,
+    { min: 0, integer: true }
+  );
+  checkNumber(errors, "days", params.days, {
+    min: 1,
+    max: MAX_DAYS,
+    integer: true,
+  });
+  return errors;
+}
+
+function validateFacility(errors: ValidationErrors, facility: FacilityTerms) {
+  checkNumber(errors, "facility.commitment", facility.commitment, { min: 0 });
+  checkNumber(errors, "facility.undrawnFee", facility.undrawnFee, {
+    min: 0,
+    max: 100,
+  });
+  checkNumber(errors, "facility.upfrontFee", facility.upfrontFee, {
+    min: 0,
+    max: 100,
+  });
+  checkNumber(errors, "facility.tenor", facility.tenor, {
+    min: 0.25,
+    max: 30,
+  });
+  for (const [key, value] of Object.entries(facility.sublimits)) {
+    checkNumber(errors, `facility.sublimits.${key}`, value, { min: 0 });
+  }
+}
+
+export function validateScenario(
+  scenario: ScenarioConfig,
+  others: ScenarioConfig[] = []
+): ValidationErrors {
+  const errors = validateParams(scenario.params);
+  const name = scenario.name.trim();
+  if (name === "") {
+    errors.name = "Enter a name";
+  } else if (
+    others.some(
+      (other) =>
+        other.id !== scenario.id &&
+        other.name.trim().toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    errors.name = "Another scenario already uses this name";
+  }
+  return errors;
+}
+
+export function validatePool(
+  pool: PoolConfig,
+  others: PoolConfig[] = []
+): ValidationErrors {
+  const errors = validateEventSettings(pool.events);
+  const name = pool.name.trim();
+  if (name === "") {
+    errors.name = "Enter a name";
+  } else if (
+    others.some(
+      (other) =>
+        other.key !== pool.key &&
+        other.name.trim().toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    errors.name = "Another pool already uses this name";
+  }
+  if (pool.key === CASH_POOL_KEY) {
+    errors.key = `"${CASH_POOL_KEY}" is reserved for the cash pool`;
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(pool.color)) {
+    errors.color = "Enter a hex colour such as #2563eb";
+  }
+  checkNumber(errors, "expectedReturn", pool.expectedReturn, {
+    min: -100,
+    max: 100,
+  });
+  checkNumber(errors, "returnVolatility", pool.returnVolatility, {
+    min: 0,
+    max: 100,
+  });
+  checkNumber(errors, "returnCorrelation", pool.returnCorrelation, {
+    min: -1,
+    max: 1,
+  });
+  return errors;
+}
+
+export function validateEventSettings(
+  settings: EventSettings
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+  checkNumber(errors, "callProbability", settings.callProbability, {
+    min: 0,
+    max: 100,
+  });
+  checkNumber(
+    errors,
+    "distributionProbability",
+    settings.distributionProbability,
+    { min: 0, max: 100 }
+  );
+  checkNumber(errors, "minSize", settings.minSize, { min: 0 });
+  checkNumber(errors, "maxSize", settings.maxSize, { min: 0 });
+
+  if (
+    !errors.callProbability &&
+    !errors.distributionProbability &&
+    settings.callProbability + settings.distributionProbability > 100
+  ) {
+    errors.distributionProbability =
+      "Call and distribution probabilities cannot exceed 100% combined";
+  }
+  if (
+    !errors.minSize &&
+    !errors.maxSize &&
+    settings.maxSize < settings.minSize
+  ) {
+    errors.maxSize = "Must be at least the minimum size";
+  }
+  if (!SIZE_DISTRIBUTIONS.includes(settings.sizeDistribution)) {
+    errors.sizeDistribution = "Choose a size distribution";
+  } else if (
+    settings.sizeDistribution === "lognormal" &&
+    !errors.minSize &&
+    settings.minSize <= 0
+  ) {
+    errors.minSize = "Must be above zero for lognormal sizes";
+  }
+  return errors;
+}
+
+export function validatePathSettings(
+  settings: PathSettings,
+  pools: PoolConfig[]
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+  checkNumber(errors, "days", settings.days, {
+    min: 1,
+    max: MAX_DAYS,
+    integer: true,
+  });
+  if (!isIsoDate(settings.startDate)) {
+    errors.startDate = "Enter a date";
+  }
+  if (settings.calendar !== "weekends" && settings.calendar !== "us") {
+    errors.calendar = "Choose a calendar";
+  }
+  const invalid = settings.holidays.find((date) => !isIsoDate(date));
+  if (invalid !== undefined) {
+    errors.holidays = `"${invalid}" is not a YYYY-MM-DD date`;
+  }
+  validateBaseRate(errors, settings.baseRate);
+  validateEventModel(errors, settings.eventModel, pools);
+  return errors;
+}
+
+function validateEventModel(
+  errors: ValidationErrors,
+  model: EventModel,
+  pools: PoolConfig[]
+) {
+  const correlationErrors: ValidationErrors = {};
+  for (const [key, value] of Object.entries(model.correlations)) {
+    checkNumber(correlationErrors, `eventModel.correlations.${key}`, value, {
+      min: -1,
+      max: 1,
+    });
+  }
+  Object.assign(errors, correlationErrors);
+  if (
+    !hasErrors(correlationErrors) &&
+    !choleskyFactor(correlationMatrix(pools, model.correlations))
+  ) {
+    errors["eventModel.correlations"] =
+      "These correlations contradict each other; weaken some of them";
+  }
+  const { regime } = model;
+  if (!regime.enabled) return;
+  for (const key of ["stressProbability", "recoveryProbability"] as const) {
+    checkNumber(errors, `eventModel.regime.${key}`, regime[key], {
+      min: 0,
+      max: 100,
+    });
+  }
+  for (const key of ["callMultiplier", "distributionMultiplier"] as const) {
+    checkNumber(errors, `eventModel.regime.${key}`, regime[key], {
+      min: 0,
+      max: 20,
+    });
+  }
+}
+
+function validateBaseRate(errors: ValidationErrors, curve: BaseRateCurve) {
+  if (curve.name.trim() === "") errors["baseRate.name"] = "Enter a name";
+  if (!BASE_RATE_KINDS.includes(curve.kind)) {
+    errors["baseRate.kind"] = "Choose how the base rate moves";
+  }
+  checkNumber(errors, "baseRate.rate", curve.rate, { min: -5, max: 100 });
+  if (curve.kind === "steps" || curve.kind === "curve") {
+    const invalid = curve.points.find(
+      (point) => !isIsoDate(point.date) || !Number.isFinite(point.rate)
+    );
+    if (invalid) {
+      errors["baseRate.points"] = "Enter dates and rates as YYYY-MM-DD 4.25";
+    } else if (curve.points.length === 0) {
+      errors["baseRate.points"] = "Add at least one date and rate";
+    }
+  }
+  if (curve.kind === "simulated") {
+    checkNumber(errors, "baseRate.longRunRate", curve.longRunRate, {
+      min: -5,
+      max: 100,
+    });
+    checkNumber(errors, "baseRate.meanReversion", curve.meanReversion, {
+      min: 0,
+      max: 50,
+    });
+    checkNumber(errors, "baseRate.volatility", curve.volatility, {
+      min: 0,
+      max: 50,
+    });
+  }
+}
+
+export function hasErrors(errors: ValidationErrors) {
+  return Object.keys(errors).length > 0;
+}
+
+function checkNumber(
+  errors: ValidationErrors,
+  field: string,
+  value: number,
+  { min, max, integer }: { min?: number; max?: number; integer?: boolean }
+) {
+  if (!Number.isFinite(value)) {
+    errors[field] = "Enter a number";
+  } else if (integer && !Number.isInteger(value)) {
+    errors[field] = "Enter a whole number";
+  } else if (min !== undefined && value < min) {
+    errors[field] = `Must be at least ${min}`;
+  } else if (max !== undefined && value > max) {
+    errors[field] = `Must be at most ${max}`;
+  }
+}